@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react'
+import type { AsyncSeoOptions, AsyncSeoSource, SeoConfig } from './types'
+import { useSeoTags } from './SeoTags'
+import { useStructuralValue } from './hooks'
+import { isDev } from './utils'
+
+/**
+ * Hook that applies metadata resolved asynchronously.
+ *
+ * @remarks
+ * While `load` is pending, `fallback` is applied. Only the most recent
+ * request can update the head: when `deps` change or the component unmounts,
+ * the previous request's signal is aborted and its result is ignored, so a
+ * slow response for a previous route never overwrites the current one.
+ *
+ * @example
+ * ```tsx
+ * useAsyncSeoTags(
+ *   signal => fetchProduct(id, { signal }).then(productPreset),
+ *   { fallback: { title: 'Loading…' }, deps: [id] }
+ * )
+ * ```
+ *
+ * @param load - Promise or loader function resolving to a config.
+ * @param options - Fallback config, loader deps and error callback.
+ */
+export function useAsyncSeoTags(load: AsyncSeoSource, options: AsyncSeoOptions = {}): void {
+  const [resolved, setResolved] = useState<SeoConfig | null>(null)
+  const deps = useStructuralValue(options.deps ?? [])
+  const trigger = typeof load === 'function' ? deps : load
+
+  useEffect(() => {
+    const controller = new AbortController()
+    let current = true
+    setResolved(null)
+
+    // Started inside a promise so a loader that throws synchronously is
+    // handled like one that rejects
+    const promise = new Promise<SeoConfig>(resolve => resolve(typeof load === 'function' ? load(controller.signal) : load))
+    promise.then(
+      config => {
+        if (current) setResolved(config)
+      },
+      error => {
+        if (!current) return
+        if (options.onError) options.onError(error)
+        else if (isDev) console.error('[metafy-seo] Async metadata failed to load', error)
+      }
+    )
+
+    return () => {
+      current = false
+      controller.abort()
+    }
+  }, [trigger])
+
+  useSeoTags(resolved ?? options.fallback ?? {})
+}
+
+/** Props for `AsyncSeoTags` */
+export interface AsyncSeoTagsProps extends AsyncSeoOptions {
+  /** Promise or loader function resolving to a config */
+  load: AsyncSeoSource
+}
+
+/**
+ * Component version of `useAsyncSeoTags`.
+ *
+ * @example
+ * <AsyncSeoTags
+ *   load={signal => api.getArticle(slug, { signal }).then(blogPostPreset)}
+ *   fallback={{ title: 'Loading article' }}
+ *   deps={[slug]}
+ * />
+ *
+ * @returns `null` (manipulates <head> as side effect).
+ */
+export const AsyncSeoTags: React.FC<AsyncSeoTagsProps> = ({ load, ...options }) => {
+  useAsyncSeoTags(load, options)
+  return null
+}
+
+AsyncSeoTags.displayName = 'AsyncSeoTags'
@@ -1,6 +1,14 @@
-import React, { createContext, useContext, PropsWithChildren, useMemo } from 'react'
-import type { SeoConfig, SeoContextValue } from './types'
-import { deepMerge } from './utils'
+import React, { createContext, useContext, useEffect, PropsWithChildren, useMemo, useState } from 'react'
+import type { SeoConfig, SeoContextValue, SeoProviderDefaults, SeoProviderProps } from './types'
+import { deepMerge, isServer } from './utils'
+import { defaultRegistry } from './registry'
+import { canonicalFromLocation } from './url'
+import { subscribeToLocation } from './location'
+import { useStructuralValue } from './hooks'
+import { resolveRoute } from './routes'
+import { toOgLocale } from './hreflang'
+import { mergeConfigs, omitDefaults } from './merge'
+import { mergeStructuredData } from './jsonld'
 
 const defaultMergeConfig = (c: SeoConfig) => c
 
@@ -14,6 +22,28 @@ const SeoContext = createContext<SeoContextValue>({
  * 
  * Wrap your app with SeoProvider to set site-wide defaults
  * that will be merged with individual SeoTags props.
+ *
+ * Providers write through the document's head registry, which SeoTags
+ * outside a provider and `createSeoManager()` share: every SeoTags is
+ * stacked in first-mount order, the last one wins per tag and
+ * unmounting a page restores the values of the layouts around it.
+ *
+ * With `autoCanonical`, `canonical` and `openGraph.url` are derived from
+ * `window.location` and follow client-side navigations, unless a SeoTags
+ * sets them explicitly.
+ *
+ * With `routes`, metadata is declared per path pattern and applied on
+ * navigation; SeoTags rendered by the page still override it.
+ *
+ * Arrays in the defaults are replaced by the page's unless
+ * `mergeStrategies` says otherwise, and a page can skip individual
+ * defaults with `omitDefaults`. A nested provider composes with its
+ * parent: its defaults sit between the parent's and the page's.
+ *
+ * With `locale`, the matching entry of `locales` is layered over
+ * `defaults`, and `<html lang>` and `og:locale` follow the locale.
+ * `translate` is passed down through `useSeo()` for presets that take
+ * message keys.
  * 
  * @example
  * ```tsx
@@ -23,29 +53,125 @@ const SeoContext = createContext<SeoContextValue>({
  * }}>
  *   <App />
  * </SeoProvider>
+ *
+ * <SeoProvider autoCanonical={{ allowParams: ['page'] }}>
+ *   <App />
+ * </SeoProvider>
+ *
+ * <SeoProvider routes={{
+ *   '/': { title: 'Home' },
+ *   '/blog/:slug': ({ slug }) => ({ title: slug })
+ * }}>
+ *   <App />
+ * </SeoProvider>
+ *
+ * <SeoProvider mergeStrategies={{ extraMeta: uniqueBy('name'), 'openGraph.images': 'append' }}>
+ *   <App />
+ * </SeoProvider>
+ *
+ * <SeoProvider
+ *   locale={lang}
+ *   defaults={{ openGraph: { siteName: 'Acme' } }}
+ *   locales={{ de: { titleTemplate: '%s | Acme DE', twitter: { site: '@acme_de' } } }}
+ *   translate={(key, values) => i18n.t(key, values)}
+ * >
+ *   <App />
+ * </SeoProvider>
  * ```
  */
-export const SeoProvider: React.FC<
-  PropsWithChildren<{ defaults?: Partial<SeoConfig> }>
-> = ({ defaults = {}, children }) => {
-  const value = useMemo<SeoContextValue>(() => ({
-    defaults,
-    mergeConfig: (config: SeoConfig): SeoConfig => {
-      // Deep merge defaults with config
-      const merged = deepMerge(defaults as SeoConfig, config)
-
-      // Special handling for titleTemplate: only use if not explicitly set in config
-      if (defaults.titleTemplate && !config.titleTemplate) {
-        merged.titleTemplate = defaults.titleTemplate
+export const SeoProvider: React.FC<PropsWithChildren<SeoProviderProps>> = props => {
+  const baseDefaults = useStructuralValue(props.defaults ?? {})
+  const locales = useStructuralValue(props.locales)
+  const autoCanonical = useStructuralValue(props.autoCanonical ?? false)
+  const routes = useStructuralValue(props.routes)
+  const breadcrumb = useStructuralValue(props.breadcrumb)
+
+  const parent = useContext(SeoContext)
+  const registry = parent.registry ?? defaultRegistry
+  const [order] = useState(() => registry.nextOrder())
+  const locale = props.locale ?? parent.locale
+  const translate = props.translate ?? parent.translate
+  const mergeStrategies = useStructuralValue({ ...parent.mergeStrategies, ...props.mergeStrategies })
+  const parentMergeConfig = parent.mergeConfig
+
+  const ownDefaults = useMemo<SeoProviderDefaults>(() => {
+    const localeDefaults = locale ? locales?.[locale] : undefined
+    return localeDefaults ? deepMerge(baseDefaults as SeoConfig, localeDefaults) : baseDefaults
+  }, [baseDefaults, locales, locale])
+
+  // What `useSeo().defaults` reports: this provider's defaults over its parent's
+  const defaults = useMemo<SeoProviderDefaults>(
+    () => parent.defaults ? mergeConfigs(parent.defaults as SeoConfig, ownDefaults as SeoConfig, mergeStrategies) : ownDefaults,
+    [parent.defaults, ownDefaults, mergeStrategies]
+  )
+
+  const mergeConfig = useMemo(() => (config: SeoConfig): SeoConfig => {
+    const applicable = omitDefaults(ownDefaults as SeoConfig, config.omitDefaults)
+    const merged = mergeConfigs(applicable, config, mergeStrategies)
+
+    // Structured data is always combined, so a parent's nodes survive a child's
+    if (applicable.structuredData && config.structuredData) {
+      merged.structuredData = mergeStructuredData([applicable.structuredData, config.structuredData])
+    }
+
+    // Special handling for titleTemplate: only use if not explicitly set in config
+    if (applicable.titleTemplate && !config.titleTemplate) {
+      merged.titleTemplate = applicable.titleTemplate
+    }
+
+    if (locale) {
+      if (!merged.language) merged.language = locale
+      if (!merged.openGraph?.locale) {
+        merged.openGraph = { ...merged.openGraph, locale: toOgLocale(locale) }
+      }
+    }
+
+    // Location is read at resolve time so navigations only need a refresh
+    if (autoCanonical && !isServer) {
+      const allowParams = typeof autoCanonical === 'object' ? autoCanonical.allowParams : undefined
+      const derived = canonicalFromLocation(window.location, allowParams, !!merged.baseUrl)
+      if (!merged.canonical) merged.canonical = derived
+      if (!merged.openGraph?.url) {
+        merged.openGraph = { ...merged.openGraph, url: merged.canonical }
       }
+    }
 
-      return merged
+    // A nested provider composes with its parent: the parent's defaults
+    // apply underneath this provider's, just as these apply under the page.
+    return parentMergeConfig(merged)
+  }, [ownDefaults, locale, autoCanonical, mergeStrategies, parentMergeConfig])
+
+  const value = useMemo<SeoContextValue>(
+    () => ({ defaults, registry, mergeConfig, locale, translate, mergeStrategies }),
+    [defaults, registry, mergeConfig, locale, translate, mergeStrategies]
+  )
+
+  // The provider's own entry sits below every SeoTags, so pages override
+  // it. It carries the matched route config and the provider's crumb, and
+  // with autoCanonical or a locale it makes sure the derived values are
+  // written even on routes without any SeoTags.
+  useEffect(() => {
+    if (!autoCanonical && !routes && !breadcrumb && !locale) return
+
+    const register = () => {
+      const config = (routes && resolveRoute(routes, window.location.pathname)) || {}
+      registry.set(order, {
+        config: breadcrumb ? { ...config, breadcrumb } : config,
+        mergeConfig,
+        mergeStrategies
+      })
+    }
+    register()
+    const unsubscribe = subscribeToLocation(register)
+    return () => {
+      unsubscribe()
+      registry.remove(order)
     }
-  }), [defaults])
+  }, [mergeConfig, mergeStrategies, routes, breadcrumb])
 
   return (
     <SeoContext.Provider value={value}>
-      {children}
+      {props.children}
     </SeoContext.Provider>
   )
 }
@@ -0,0 +1,33 @@
+import type { Breadcrumb, SeoConfig } from './types'
+
+/**
+ * Join the crumbs contributed by nested layers into one trail.
+ *
+ * @remarks
+ * Layers are given outermost first (providers, then each mounted `SeoTags`
+ * in tree order). Each layer contributes its `breadcrumb`; a crumb repeating
+ * the previous one's URL replaces it, so a layout and its index page can
+ * both declare the same step.
+ *
+ * @example
+ * ```ts
+ * collectBreadcrumbs([
+ *   { breadcrumb: { name: 'Home', url: '/' } },
+ *   { breadcrumb: { name: 'Blog', url: '/blog' } },
+ *   { breadcrumb: { name: 'Hello', url: '/blog/hello' } }
+ * ])
+ * ```
+ *
+ * @param layers - Configs of the mounted layers, outermost first.
+ * @returns The breadcrumb trail from the root to the current page.
+ */
+export function collectBreadcrumbs(layers: SeoConfig[]): Breadcrumb[] {
+  const trail: Breadcrumb[] = []
+  layers.forEach(layer => {
+    const crumb = layer.breadcrumb
+    if (!crumb) return
+    if (trail.length && trail[trail.length - 1].url === crumb.url) trail.pop()
+    trail.push(crumb)
+  })
+  return trail
+}
@@ -0,0 +1,186 @@
+import type { HeadTag } from './types'
+
+/** Writes tag lists produced by `buildTags` into a <head> element */
+export interface HeadWriter {
+  /** Bring <head> in line with `tags`, diffing against the previous call */
+  apply: (tags: HeadTag[]) => void
+}
+
+interface Slot {
+  el: HTMLElement
+  tag: HeadTag
+  /** Whether the element was created (or prerendered) by this library */
+  owned: boolean
+  /** State of an adopted page element before it was first written to */
+  original?: { attributes: Record<string, string>; content: string | null }
+}
+
+/** Elements every writer in the page has created or adopted */
+const writtenElements = new WeakSet<HTMLElement>()
+
+/** Snapshot an element's attributes and text */
+function snapshot(el: HTMLElement): Slot['original'] {
+  const attributes: Record<string, string> = {}
+  for (let i = 0; i < el.attributes.length; i++) {
+    attributes[el.attributes[i].name] = el.attributes[i].value
+  }
+  return { attributes, content: el.textContent }
+}
+
+/** Put an adopted element back the way the page had it */
+function restore(el: HTMLElement, original: NonNullable<Slot['original']>): void {
+  for (let i = el.attributes.length - 1; i >= 0; i--) {
+    const name = el.attributes[i].name
+    if (!(name in original.attributes)) el.removeAttribute(name)
+  }
+  Object.keys(original.attributes).forEach(k => {
+    if (el.getAttribute(k) !== original.attributes[k]) el.setAttribute(k, original.attributes[k])
+  })
+  if (el.textContent !== original.content) el.textContent = original.content
+}
+
+/**
+ * Find an element already in <head> that a tag should take over.
+ * Managed tags match on `data-metafy`; others on their identifying attribute.
+ */
+function findExisting(head: HTMLElement, t: HeadTag): HTMLElement | null {
+  if (t.tag === 'title') return head.querySelector('title')
+
+  const a = t.attributes
+  if (a['data-metafy']) return head.querySelector(`${t.tag}[data-metafy="${a['data-metafy']}"]`)
+
+  let selector: string
+  if (t.tag === 'meta') {
+    selector = a.name ? `meta[name="${a.name}"]` : `meta[property="${a.property}"]`
+  } else if (t.tag === 'link') {
+    selector = a.hreflang ? `link[rel="alternate"][hreflang="${a.hreflang}"]` : `link[rel="${a.rel}"]`
+  } else {
+    return null
+  }
+  return head.querySelector(`${selector}:not([data-metafy])`)
+}
+
+/**
+ * Copy a tag's attributes and text onto an element.
+ * Only values that differ are written, so unchanged tags produce no mutations.
+ */
+function syncElement(el: HTMLElement, t: HeadTag, prev?: HeadTag): void {
+  if (prev) {
+    Object.keys(prev.attributes).forEach(k => {
+      if (!(k in t.attributes) && el.hasAttribute(k)) el.removeAttribute(k)
+    })
+  }
+  Object.keys(t.attributes).forEach(k => {
+    if (el.getAttribute(k) !== t.attributes[k]) el.setAttribute(k, t.attributes[k])
+  })
+  if ((t.tag === 'title' || t.tag === 'script') && el.textContent !== t.content) {
+    el.textContent = t.content
+  }
+}
+
+/**
+ * Create a writer that keeps <head> in sync with successive tag lists.
+ *
+ * @remarks
+ * Tags are matched to elements by `key`. Elements for keys that are still
+ * present keep their identity and only changed attributes are written. New
+ * keys adopt a matching element already in <head> (e.g. from index.html or a
+ * prerender) or create one next to the previous tag. Keys that disappear are
+ * removed if this library created them; unmarked tags that were already in
+ * the page (such as the index.html <title>) are restored to their original
+ * attributes and text instead. Managed tags that no writer has claimed,
+ * such as stale prerendered ones, are removed.
+ *
+ * @param head - Target element, usually `document.head`.
+ * @returns A new `HeadWriter`.
+ */
+export function createHeadWriter(head: HTMLElement): HeadWriter {
+  let slots: Record<string, Slot> = {}
+
+  return {
+    apply: tags => {
+      const next: Record<string, Slot> = {}
+      let prevEl: HTMLElement | null = null
+
+      tags.forEach(t => {
+        let slot = slots[t.key]
+
+        if (slot) {
+          syncElement(slot.el, t, slot.tag)
+        } else {
+          const existing = findExisting(head, t)
+          const el = existing || document.createElement(t.tag)
+          const owned = !existing || !!t.attributes['data-metafy']
+          const original = owned ? undefined : snapshot(el)
+          syncElement(el, t)
+          if (!existing) {
+            // Insert after the previous tag so grouped tags (og:image and
+            // its :width/:height) stay adjacent.
+            head.insertBefore(el, prevEl && prevEl.parentNode === head ? prevEl.nextSibling : null)
+          }
+          slot = { el, tag: t, owned, original }
+        }
+
+        next[t.key] = { ...slot, tag: t }
+        prevEl = slot.el
+      })
+
+      Object.keys(slots).forEach(key => {
+        const slot = slots[key]
+        if (next[key]?.el === slot.el) return
+        if (!slot.owned) {
+          if (slot.original) restore(slot.el, slot.original)
+        } else if (slot.el.parentNode === head) {
+          head.removeChild(slot.el)
+        }
+      })
+
+      // Managed tags no writer has claimed, i.e. left over from a prerender.
+      // Tags of other writers (another registry) are left alone.
+      Object.keys(next).forEach(key => writtenElements.add(next[key].el))
+      head.querySelectorAll<HTMLElement>('[data-metafy]').forEach(el => {
+        if (!writtenElements.has(el)) head.removeChild(el)
+      })
+
+      slots = next
+    }
+  }
+}
+
+/** Writes attribute maps onto a single element such as <html> */
+export interface AttributeWriter {
+  /** Bring the element's attributes in line with `attributes`, diffing against the previous call */
+  apply: (attributes: Record<string, string>) => void
+}
+
+/**
+ * Create a writer that manages a set of attributes on one element.
+ *
+ * @remarks
+ * The first time an attribute is written its original value is remembered;
+ * when it later drops out of `attributes` that value is put back (or the
+ * attribute removed if the page never had it).
+ *
+ * @param el - Target element, e.g. `document.documentElement`.
+ * @returns A new `AttributeWriter`.
+ */
+export function createAttributeWriter(el: HTMLElement): AttributeWriter {
+  let originals: Record<string, string | null> = {}
+
+  return {
+    apply: attributes => {
+      Object.keys(originals).forEach(name => {
+        if (name in attributes) return
+        const original = originals[name]
+        if (original === null) el.removeAttribute(name)
+        else if (el.getAttribute(name) !== original) el.setAttribute(name, original)
+        delete originals[name]
+      })
+
+      Object.keys(attributes).forEach(name => {
+        if (!(name in originals)) originals[name] = el.getAttribute(name)
+        if (el.getAttribute(name) !== attributes[name]) el.setAttribute(name, attributes[name])
+      })
+    }
+  }
+}
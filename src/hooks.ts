@@ -0,0 +1,17 @@
+import { useRef } from 'react'
+import { isEqual } from './utils'
+
+/**
+ * Return the previous value while `value` is structurally equal to it.
+ *
+ * Lets effects depend on config objects that are recreated on every render
+ * (inline props, object literals) without re-running for identical content.
+ *
+ * @param value - Value to stabilize.
+ * @returns `value`, or an earlier structurally equal instance of it.
+ */
+export function useStructuralValue<T>(value: T): T {
+  const ref = useRef(value)
+  if (!isEqual(ref.current, value)) ref.current = value
+  return ref.current
+}
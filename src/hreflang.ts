@@ -0,0 +1,117 @@
+import type { SeoConfig } from './types'
+
+/** Language, optional script and optional region, e.g. "en", "zh-Hant", "es-419", "pt-BR" */
+const HREFLANG_PATTERN = /^[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?$/i
+
+/** Options for `buildLanguageAlternates` */
+export interface LanguageAlternatesOptions {
+  /**
+   * Locale whose URL is also used for `x-default`. Defaults to the first
+   * locale; `false` leaves `x-default` out.
+   */
+  xDefault?: string | false
+}
+
+/**
+ * Check an hreflang value: "x-default" or a BCP-47 language tag limited to
+ * language, script and region subtags.
+ *
+ * @param code - Value to check, e.g. "en-GB".
+ */
+export function isValidHreflang(code: string): boolean {
+  return code === 'x-default' || HREFLANG_PATTERN.test(code)
+}
+
+/**
+ * Convert a BCP-47 tag to Open Graph's `language_TERRITORY` format.
+ * Script subtags are dropped: "zh-Hant-TW" becomes "zh_TW".
+ *
+ * @param code - Language tag, e.g. "en-us".
+ * @returns The OG locale, e.g. "en_US".
+ */
+export function toOgLocale(code: string): string {
+  const parts = code.split(/[-_]/)
+  const language = parts[0].toLowerCase()
+  const region = parts.slice(1).filter(p => p.length === 2 || /^\d{3}$/.test(p))[0]
+  return region ? `${language}_${region.toUpperCase()}` : language
+}
+
+/**
+ * Build a `languageAlternates` map from a locale list and a URL pattern.
+ *
+ * @example
+ * ```ts
+ * buildLanguageAlternates(['en', 'fr'], '/:locale/pricing')
+ * // { en: '/en/pricing', fr: '/fr/pricing', 'x-default': '/en/pricing' }
+ * ```
+ *
+ * @param locales - Locales the page exists in.
+ * @param url - Pattern with a `:locale` placeholder, or a function of the locale.
+ * @param options - See `LanguageAlternatesOptions`.
+ * @returns Map of hreflang codes to URLs, including `x-default` unless disabled.
+ */
+export function buildLanguageAlternates(
+  locales: string[],
+  url: string | ((locale: string) => string),
+  options: LanguageAlternatesOptions = {}
+): Record<string, string> {
+  const urlFor = typeof url === 'function' ? url : (locale: string) => url.replace(/:locale\b/g, locale)
+  const alternates: Record<string, string> = {}
+  locales.forEach(locale => {
+    alternates[locale] = urlFor(locale)
+  })
+
+  const xDefault = options.xDefault === undefined ? locales[0] : options.xDefault
+  if (xDefault !== false && xDefault !== undefined) alternates['x-default'] = urlFor(xDefault)
+
+  return alternates
+}
+
+/**
+ * Find the alternate describing the page itself: `language` when set,
+ * otherwise the alternate whose URL equals the canonical.
+ *
+ * @param config - Config with normalized URLs.
+ * @returns The page's hreflang code, or `undefined` when it cannot be told.
+ */
+export function currentAlternate(config: SeoConfig): string | undefined {
+  const alternates = config.languageAlternates
+  if (!alternates) return undefined
+  if (config.language) return config.language
+
+  return Object.keys(alternates).filter(lang => lang !== 'x-default' && alternates[lang] === config.canonical)[0]
+}
+
+/**
+ * Fill `openGraph.locale` and `openGraph.localeAlternates` from
+ * `languageAlternates`.
+ *
+ * @remarks
+ * Only runs when the page's own locale is known (see `currentAlternate`).
+ * Values the config sets explicitly are kept. Alternates are converted with
+ * `toOgLocale`, deduplicated, and exclude `x-default` and the page's locale.
+ *
+ * @param config - Config with normalized URLs.
+ * @returns A copy of `config` with the OG locale fields filled in.
+ */
+export function applyLocaleAlternates(config: SeoConfig): SeoConfig {
+  const current = currentAlternate(config)
+  if (!current) return config
+
+  const locale = config.openGraph?.locale || toOgLocale(current)
+  const localeAlternates: string[] = []
+  Object.keys(config.languageAlternates!).forEach(lang => {
+    if (lang === 'x-default') return
+    const ogLocale = toOgLocale(lang)
+    if (ogLocale !== locale && localeAlternates.indexOf(ogLocale) === -1) localeAlternates.push(ogLocale)
+  })
+
+  return {
+    ...config,
+    openGraph: {
+      ...config.openGraph,
+      locale,
+      localeAlternates: config.openGraph?.localeAlternates || localeAlternates
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { SeoText, SeoTranslate } from './types'
+
+/** Languages written right to left */
+const RTL_LANGUAGES = ['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'ku', 'ps', 'sd', 'syr', 'ug', 'ur', 'yi']
+
+/** Scripts written right to left, for tags like "az-Arab" */
+const RTL_SCRIPTS = ['arab', 'hebr', 'syrc', 'thaa', 'nkoo', 'adlm', 'rohg']
+
+/**
+ * Check whether a locale is written right to left.
+ * An explicit script subtag decides when present, so "ku-Latn" is LTR.
+ *
+ * @param locale - BCP-47 tag, e.g. "ar-EG" or "uz-Arab".
+ */
+export function isRtlLocale(locale: string): boolean {
+  const parts = locale.toLowerCase().split(/[-_]/)
+  const script = parts.filter(p => p.length === 4 && /^[a-z]+$/.test(p))[0]
+  if (script) return RTL_SCRIPTS.indexOf(script) !== -1
+  return RTL_LANGUAGES.indexOf(parts[0]) !== -1
+}
+
+/**
+ * Resolve literal text or a message key to a string.
+ *
+ * @remarks
+ * Strings are returned as is. Messages go through `translate`; when it is
+ * missing or returns nothing, `defaultMessage` is used, then the key itself
+ * so an untranslated string is visible rather than silently empty.
+ *
+ * @example
+ * ```ts
+ * resolveText({ key: 'about.title' }, t) // "Über uns"
+ * ```
+ *
+ * @param text - Text or message to resolve.
+ * @param translate - Translate function, usually `useSeo().translate`.
+ * @returns The resolved string, or `undefined` when `text` is unset.
+ */
+export function resolveText(text: SeoText, translate?: SeoTranslate): string
+export function resolveText(text: SeoText | undefined, translate?: SeoTranslate): string | undefined
+export function resolveText(text: SeoText | undefined, translate?: SeoTranslate): string | undefined {
+  if (text === undefined || typeof text === 'string') return text
+  return translate?.(text.key, text.values) || text.defaultMessage || text.key
+}
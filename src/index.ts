@@ -1,12 +1,35 @@
 // Main exports
-export { SeoTags } from './SeoTags'
+export { SeoTags, useSeoTags } from './SeoTags'
+export { AsyncSeoTags, useAsyncSeoTags } from './AsyncSeoTags'
+export type { AsyncSeoTagsProps } from './AsyncSeoTags'
 export { SeoProvider, useSeo } from './SeoProvider'
+export { createSeoManager } from './manager'
+export type { SeoManager } from './manager'
+
+// Tag model and static rendering
+export { buildTags, buildHtmlAttributes, buildBodyAttributes, renderHeadToString, renderHeadToTags } from './tags'
+export { parseRobots, serializeRobots } from './robots'
+
+// Validation
+export { validateSeoConfig } from './validate'
+
+// Structured data
+export * from './schema'
+export { mergeStructuredData, toJsonLdGraph, serializeJsonLd } from './jsonld'
+export { collectBreadcrumbs } from './breadcrumbs'
 
 // Types
 export * from './types'
 
 // Utilities
 export { isServer, isClient, escapeHtml, deepMerge } from './utils'
+export { mergeConfigs, uniqueBy } from './merge'
+export { normalizeUrl } from './url'
+export { matchPath } from './routes'
+export { buildLanguageAlternates, isValidHreflang, toOgLocale } from './hreflang'
+export { isRtlLocale, resolveText } from './i18n'
+export type { LanguageAlternatesOptions } from './hreflang'
+export type { UrlOptions } from './url'
 
 // Presets
 export * from './presets'
@@ -0,0 +1,109 @@
+import type { StructuredData } from './types'
+import { SCHEMA_CONTEXT } from './schema'
+
+/**
+ * Combine structured data from several layers into one list.
+ *
+ * @remarks
+ * Lists are given outermost first (provider defaults, then each mounted
+ * `SeoTags` in tree order). Nodes sharing an `@id` are merged into the
+ * position of the first occurrence, with deeper layers winning per
+ * property. Nodes without an `@id` are kept as they are.
+ *
+ * @param lists - Structured data arrays, outermost first.
+ * @returns The combined, deduplicated list.
+ */
+export function mergeStructuredData(lists: Array<StructuredData[] | undefined>): StructuredData[] {
+  const result: StructuredData[] = []
+  const byId: Record<string, number> = {}
+
+  lists.forEach(list => {
+    list?.forEach(node => {
+      const id = node['@id']
+      if (typeof id !== 'string') {
+        result.push(node)
+      } else if (id in byId) {
+        result[byId[id]] = { ...result[byId[id]], ...node }
+      } else {
+        byId[id] = result.length
+        result.push(node)
+      }
+    })
+  })
+
+  return result
+}
+
+/**
+ * Wrap nodes into a single `@graph` document.
+ *
+ * The shared schema.org `@context` is hoisted to the top level; `@id`
+ * cross-references between nodes are left untouched.
+ *
+ * @param nodes - Structured data nodes.
+ * @returns One JSON-LD object holding every node in `@graph`.
+ */
+export function toJsonLdGraph(nodes: StructuredData[]): StructuredData {
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@graph': nodes.map(node => {
+      if (node['@context'] !== SCHEMA_CONTEXT) return node
+      const { '@context': _context, ...rest } = node
+      return rest
+    })
+  }
+}
+
+/** Characters that could end the script element or break JS parsers */
+const UNSAFE_CHARS: Record<string, string> = {
+  '<': '\\u003c',
+  '>': '\\u003e',
+  '&': '\\u0026',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029'
+}
+
+/**
+ * Throw if `value` contains anything JSON cannot represent faithfully.
+ * `JSON.stringify` silently drops functions and fails on cycles and
+ * BigInt with messages that do not say where the problem is.
+ */
+function assertSerializable(value: unknown, path: string, ancestors: object[]): void {
+  const type = typeof value
+  if (type === 'function' || type === 'symbol' || type === 'bigint') {
+    throw new TypeError(`[metafy-seo] Cannot serialize ${type} at ${path} as JSON-LD`)
+  }
+  if (!value || type !== 'object') return
+
+  if (ancestors.indexOf(value as object) !== -1) {
+    throw new TypeError(`[metafy-seo] Cannot serialize circular reference at ${path} as JSON-LD`)
+  }
+  ancestors.push(value as object)
+
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => assertSerializable(item, `${path}[${i}]`, ancestors))
+  } else {
+    Object.keys(value as object).forEach(key => {
+      assertSerializable((value as Record<string, unknown>)[key], `${path}.${key}`, ancestors)
+    })
+  }
+
+  ancestors.pop()
+}
+
+/**
+ * Serialize a JSON-LD object for a `<script type="application/ld+json">`.
+ *
+ * @remarks
+ * `<`, `>`, `&`, U+2028 and U+2029 are written as `\uXXXX` escapes, so
+ * user content containing `</script>` or `<!--` cannot break out of the
+ * script element. The output parses back to the same value.
+ *
+ * @param value - Structured data to serialize.
+ * @returns JSON text safe to place inside a script element.
+ * @throws TypeError when `value` contains functions, symbols, BigInt or cycles.
+ */
+export function serializeJsonLd(value: StructuredData): string {
+  assertSerializable(value, '$', [])
+  return JSON.stringify(value).replace(/[<>&\u2028\u2029]/g, ch => UNSAFE_CHARS[ch])
+}
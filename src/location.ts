@@ -0,0 +1,43 @@
+import { isServer } from './utils'
+
+/** Event dispatched on window after history.pushState/replaceState */
+const LOCATION_EVENT = 'metafy:locationchange'
+
+let historyPatched = false
+
+/**
+ * Make pushState/replaceState observable.
+ * Routers navigate through these without firing any DOM event.
+ */
+function patchHistory(): void {
+  if (historyPatched) return
+  historyPatched = true
+
+  ;(['pushState', 'replaceState'] as const).forEach(method => {
+    const original = window.history[method]
+    window.history[method] = function (this: History) {
+      const result = original.apply(this, arguments as unknown as Parameters<History['pushState']>)
+      window.dispatchEvent(new Event(LOCATION_EVENT))
+      return result
+    }
+  })
+}
+
+/**
+ * Subscribe to client-side navigations (popstate, pushState, replaceState).
+ *
+ * @param listener - Called after the location has changed.
+ * @returns Unsubscribe function.
+ */
+export function subscribeToLocation(listener: () => void): () => void {
+  if (isServer) return () => {}
+
+  patchHistory()
+  window.addEventListener('popstate', listener)
+  window.addEventListener(LOCATION_EVENT, listener)
+
+  return () => {
+    window.removeEventListener('popstate', listener)
+    window.removeEventListener(LOCATION_EVENT, listener)
+  }
+}
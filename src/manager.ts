@@ -0,0 +1,59 @@
+import type { SeoConfig, SeoContextValue } from './types'
+import { defaultRegistry } from './registry'
+
+/** Imperative handle for setting head metadata outside of components */
+export interface SeoManager {
+  /** Replace this manager's config and re-apply the head */
+  set: (config: SeoConfig) => void
+  /** Withdraw this manager's config, restoring whatever it overrode */
+  reset: () => void
+}
+
+/**
+ * Create an imperative SEO manager for non-component code.
+ *
+ * @remarks
+ * A manager takes part in the same head registry as `SeoTags`: it stacks
+ * like an instance created at the moment the manager was, so components
+ * rendered later (a page under the route that ran the loader) still win.
+ * Every document has one registry, so a manager created without context
+ * (e.g. in a vanilla widget) still stacks with the app's `SeoTags` and
+ * picks up the provider defaults. Pass the value of `useSeo()` from inside
+ * a provider to stack under its position and use its own defaults.
+ *
+ * A manager keeps its entry until `reset()` is called, and captures the
+ * context's `mergeConfig` when created, so it does not see later changes
+ * to the provider's defaults. Components should prefer `useSeoTags`; when
+ * a manager is needed inside React, create it in an effect and reset it
+ * in the cleanup.
+ *
+ * @example
+ * ```ts
+ * // Vanilla widget
+ * const seo = createSeoManager()
+ * seo.set({ title: 'Checkout' })
+ *
+ * // Inside React, sharing the provider
+ * const context = useSeo()
+ * useEffect(() => {
+ *   const seo = createSeoManager(context)
+ *   loadProduct(id).then(product => seo.set({ title: product.name }))
+ *   return () => seo.reset()
+ * }, [context, id])
+ * ```
+ *
+ * @param context - Value returned by `useSeo()`.
+ * @returns A new `SeoManager`.
+ */
+export function createSeoManager(context?: SeoContextValue): SeoManager {
+  const registry = context?.registry ?? defaultRegistry
+  const order = registry.nextOrder()
+
+  return {
+    set: config => registry.set(
+      order,
+      context?.registry ? { config, mergeConfig: context.mergeConfig, mergeStrategies: context.mergeStrategies } : { config }
+    ),
+    reset: () => registry.remove(order)
+  }
+}
@@ -0,0 +1,99 @@
+import type { MergeStrategies, MergeStrategy, SeoConfig } from './types'
+
+/**
+ * Merge strategy that concatenates arrays and keeps one item per key,
+ * the later one winning in the earlier one's position.
+ *
+ * @example
+ * ```ts
+ * <SeoProvider mergeStrategies={{ extraMeta: uniqueBy('name') }} />
+ * ```
+ *
+ * @param key - Item property, or a function returning the identity of an item.
+ */
+export function uniqueBy(key: string | ((item: any) => unknown)): MergeStrategy {
+  return { uniqueBy: key }
+}
+
+/** Combine two arrays according to a strategy */
+function mergeArrays(target: unknown[], source: unknown[], strategy: MergeStrategy): unknown[] {
+  if (strategy === 'replace') return source
+  if (strategy === 'append') return target.concat(source)
+  if (strategy === 'prepend') return source.concat(target)
+
+  const key = strategy.uniqueBy
+  const identify = typeof key === 'function' ? key : (item: any) => item?.[key]
+  const result = target.slice()
+  source.forEach(item => {
+    const id = identify(item)
+    const index = id === undefined ? -1 : result.map(identify).indexOf(id)
+    if (index === -1) result.push(item)
+    else result[index] = item
+  })
+  return result
+}
+
+/**
+ * Deep merge two configs, combining arrays per field.
+ *
+ * @remarks
+ * Behaves like `deepMerge` (objects merge recursively, `undefined` is
+ * ignored, arrays are replaced) except where `strategies` names the
+ * dotted path of an array, e.g. "extraMeta" or "openGraph.images".
+ *
+ * @param target - Lower-priority config, e.g. provider defaults.
+ * @param source - Higher-priority config, e.g. page props.
+ * @param strategies - Strategy per dotted path.
+ * @returns A new merged config.
+ */
+export function mergeConfigs(target: SeoConfig, source: SeoConfig, strategies: MergeStrategies = {}): SeoConfig {
+  const merge = (t: Record<string, any>, s: Record<string, any>, path: string): Record<string, any> => {
+    const result = { ...t }
+    Object.keys(s).forEach(key => {
+      const sourceValue = s[key]
+      const targetValue = t[key]
+      const keyPath = path ? `${path}.${key}` : key
+      if (sourceValue === undefined) return
+
+      if (Array.isArray(sourceValue) && Array.isArray(targetValue) && strategies[keyPath]) {
+        result[key] = mergeArrays(targetValue, sourceValue, strategies[keyPath])
+      } else if (
+        typeof sourceValue === 'object' && sourceValue !== null && !Array.isArray(sourceValue) &&
+        typeof targetValue === 'object' && targetValue !== null && !Array.isArray(targetValue)
+      ) {
+        result[key] = merge(targetValue, sourceValue, keyPath)
+      } else {
+        result[key] = sourceValue
+      }
+    })
+    return result
+  }
+
+  return merge(target, source, '') as SeoConfig
+}
+
+/**
+ * Remove the defaults a page opted out of via `omitDefaults`.
+ *
+ * @param defaults - Provider defaults.
+ * @param omit - `true` for all of them, or dotted paths such as "twitter.site".
+ * @returns A copy of `defaults` without the omitted fields.
+ */
+export function omitDefaults(defaults: SeoConfig, omit: SeoConfig['omitDefaults']): SeoConfig {
+  if (!omit) return defaults
+  if (omit === true) return {}
+
+  const omitPath = (obj: Record<string, any>, parts: string[]): Record<string, any> => {
+    const [head, ...rest] = parts
+    if (!(head in obj)) return obj
+    const result = { ...obj }
+    if (!rest.length) {
+      delete result[head]
+    } else if (typeof obj[head] === 'object' && obj[head] !== null && !Array.isArray(obj[head])) {
+      result[head] = omitPath(obj[head], rest)
+    }
+    return result
+  }
+
+  return omit.reduce((acc, path) => omitPath(acc, path.split('.')) as SeoConfig, defaults)
+}
@@ -0,0 +1,47 @@
+import type { SeoConfig } from './types'
+
+/**
+ * Apply pagination rules to a config.
+ *
+ * @remarks
+ * `canonical` and `openGraph.url` become the current page's own URL, and
+ * pages after `noindexAfter` get `noindex,follow` so crawlers still follow
+ * links to the items they list. The rel="prev"/"next" links themselves are
+ * emitted by `buildTags`.
+ *
+ * @param config - Config with a `pagination` field.
+ * @returns A copy of `config` with the rules applied.
+ */
+export function applyPagination(config: SeoConfig): SeoConfig {
+  const pagination = config.pagination
+  if (!pagination) return config
+
+  const self = pagination.urlFor(pagination.current)
+  const result: SeoConfig = {
+    ...config,
+    canonical: self,
+    openGraph: config.openGraph ? { ...config.openGraph, url: self } : config.openGraph
+  }
+
+  if (pagination.noindexAfter !== undefined && pagination.current > pagination.noindexAfter) {
+    result.robotsDirectives = { ...config.robotsDirectives, index: false, follow: true }
+  }
+
+  return result
+}
+
+/**
+ * URLs of the neighbouring pages, when they exist.
+ *
+ * @param config - Config with a `pagination` field.
+ * @returns `prev`/`next` URLs; either is omitted at the ends of the listing.
+ */
+export function paginationLinks(config: SeoConfig): { prev?: string; next?: string } {
+  const pagination = config.pagination
+  if (!pagination) return {}
+
+  return {
+    prev: pagination.current > 1 ? pagination.urlFor(pagination.current - 1) : undefined,
+    next: pagination.current < pagination.total ? pagination.urlFor(pagination.current + 1) : undefined
+  }
+}
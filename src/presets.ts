@@ -1,5 +1,22 @@
 // src/presets.ts
-import type { SeoConfig } from './types'
+import type { SeoConfig, SeoMessage, SeoText, SeoTranslate } from './types'
+import { resolveText } from './i18n'
+import {
+  eventSchema,
+  faqPageSchema,
+  podcastEpisodeSchema,
+  productSchema,
+  profilePageSchema,
+  recipeSchema,
+  softwareApplicationSchema,
+  videoObjectSchema,
+  EventSchema,
+  MerchantReturnPolicySchema,
+  OfferShippingDetailsSchema,
+  PlaceSchema,
+  SoftwareApplicationSchema,
+  VirtualLocationSchema
+} from './schema'
 
 /**
  * Default SEO configuration applied site-wide.
@@ -73,19 +90,47 @@ export function blogPostPreset(opts: BlogPostOptions): SeoConfig {
         tags: opts.tags
       }
     },
-    twitter: {
-      card: 'summary_large_image',
-      title: opts.title,
-      description: opts.description,
-      image: opts.images?.[0] ?? ''
-    }
+    twitter: { card: 'summary_large_image' }
   }
 }
 
-/**
- * Options for generating SEO metadata for a product page.
- */
-export interface ProductOptions {
+/** Shipping cost to one or more countries */
+export type ProductShipping = {
+  /** Shipping cost in the product currency; 0 for free shipping */
+  rate: string | number
+  /** ISO 3166-1 destination country code(s) */
+  country: string | string[]
+} & (
+  /** Business days as [min, max]; handling and transit go together */
+  | { handlingDays: [number, number]; transitDays: [number, number] }
+  | { handlingDays?: never; transitDays?: never }
+)
+
+/** Return policy for the countries a product ships to */
+export type ProductReturnPolicy = {
+  /** ISO 3166-1 country code(s) the policy applies to */
+  country: string | string[]
+  method?: 'ReturnByMail' | 'ReturnInStore' | 'ReturnAtKiosk'
+  fees?: 'FreeReturn' | 'ReturnFeesCustomerResponsibility' | 'ReturnShippingFees'
+} & (
+  | { category: 'FiniteReturnWindow'; days: number }
+  | { category: 'UnlimitedWindow' | 'NotPermitted'; days?: never }
+)
+
+/** A customer review of a product */
+export interface ProductReview {
+  /** Reviewer name */
+  author: string
+  /** Rating given, on a scale up to `bestRating` (default 5) */
+  rating: number
+  bestRating?: number
+  /** Review text */
+  body?: string
+  /** ISO date of the review */
+  datePublished?: string
+}
+
+interface ProductBaseOptions {
   /** The product's display name. */
   name: string
   /** A short, marketing-friendly description. */
@@ -94,16 +139,128 @@ export interface ProductOptions {
   url: string
   /** Optional array of image URLs showcasing the product. */
   images?: string[]
-  /** Price amount as a string (e.g. "19.99"). */
-  price: string
   /** Currency code in ISO 4217 format (e.g. "USD"). */
   currency: string
-  /** Stock status: InStock, OutOfStock, or PreOrder. */
-  availability: 'InStock' | 'OutOfStock' | 'PreOrder'
+  /** Stock status. */
+  availability: 'InStock' | 'OutOfStock' | 'PreOrder' | 'BackOrder' | 'LimitedAvailability' | 'Discontinued'
   /** Optional brand name */
   brand?: string
   /** Optional product category */
   category?: string
+  /** Optional merchant stock keeping unit */
+  sku?: string
+  /** Optional GTIN (UPC, EAN or ISBN digits) */
+  gtin?: string
+  /** Optional ISO date after which the price is no longer valid */
+  priceValidUntil?: string
+  /** Optional condition; listings assume new when unset */
+  itemCondition?: 'NewCondition' | 'UsedCondition' | 'RefurbishedCondition' | 'DamagedCondition'
+  /** Optional average rating on a scale up to `best` (default 5) */
+  aggregateRating?: { value: number; count: number; best?: number }
+  /** Optional individual reviews */
+  reviews?: ProductReview[]
+  /** Optional shipping cost(s) */
+  shipping?: ProductShipping | ProductShipping[]
+  /** Optional return policy */
+  returnPolicy?: ProductReturnPolicy
+}
+
+/** A single price, or a price range across variants (emitted as an AggregateOffer) */
+type ProductPricing =
+  | {
+    /** Price amount as a string (e.g. "19.99"). */
+    price: string
+    lowPrice?: never
+    highPrice?: never
+    offerCount?: never
+  }
+  | {
+    /** Lowest variant price, e.g. "19.99" */
+    lowPrice: string
+    /** Highest variant price, e.g. "29.99" */
+    highPrice: string
+    /** Optional number of variants on offer */
+    offerCount?: number
+    price?: never
+  }
+
+/** An `mpn` only identifies a product together with its brand */
+type ProductIdentifiers = { mpn?: never } | { mpn: string; brand: string }
+
+/**
+ * Options for generating SEO metadata for a product page.
+ *
+ * @remarks
+ * Set either `price` or `lowPrice`/`highPrice`, and `brand` whenever `mpn`
+ * is set; other combinations fail to compile.
+ */
+export type ProductOptions = ProductBaseOptions & ProductPricing & ProductIdentifiers
+
+/** og:product condition values */
+const OG_CONDITION: Record<NonNullable<ProductBaseOptions['itemCondition']>, string> = {
+  NewCondition: 'new',
+  UsedCondition: 'used',
+  RefurbishedCondition: 'refurbished',
+  DamagedCondition: 'used'
+}
+
+/** Offer fields that apply equally to a single price and a price range */
+function offerDetails(opts: ProductOptions) {
+  const shipping = opts.shipping && ([] as ProductShipping[]).concat(opts.shipping)
+  const policy = opts.returnPolicy
+
+  return {
+    priceCurrency: opts.currency,
+    availability: `https://schema.org/${opts.availability}`,
+    priceValidUntil: opts.priceValidUntil,
+    itemCondition: opts.itemCondition ? `https://schema.org/${opts.itemCondition}` : undefined,
+    shippingDetails: shipping?.map((s): OfferShippingDetailsSchema => ({
+      '@type': 'OfferShippingDetails',
+      shippingRate: { '@type': 'MonetaryAmount', value: s.rate, currency: opts.currency },
+      shippingDestination: { '@type': 'DefinedRegion', addressCountry: s.country },
+      deliveryTime: s.handlingDays && {
+        '@type': 'ShippingDeliveryTime',
+        handlingTime: { '@type': 'QuantitativeValue', minValue: s.handlingDays[0], maxValue: s.handlingDays[1], unitCode: 'DAY' },
+        transitTime: { '@type': 'QuantitativeValue', minValue: s.transitDays[0], maxValue: s.transitDays[1], unitCode: 'DAY' }
+      }
+    })),
+    hasMerchantReturnPolicy: policy && ({
+      '@type': 'MerchantReturnPolicy',
+      applicableCountry: policy.country,
+      returnPolicyCategory: `https://schema.org/MerchantReturn${policy.category}`,
+      merchantReturnDays: policy.days,
+      returnMethod: policy.method && `https://schema.org/${policy.method}`,
+      returnFees: policy.fees && `https://schema.org/${policy.fees}`
+    } as MerchantReturnPolicySchema)
+  }
+}
+
+/** product:* Open Graph tags for the fields that are set */
+function productMeta(opts: ProductOptions): NonNullable<SeoConfig['extraMeta']> {
+  const meta: Array<[string, string | number | undefined]> = [
+    ['product:price:amount', opts.price ?? opts.lowPrice],
+    ['product:price:currency', opts.currency],
+    ['product:availability', opts.availability],
+    ['product:condition', opts.itemCondition && OG_CONDITION[opts.itemCondition]],
+    ['product:brand', opts.brand],
+    ['product:category', opts.category],
+    ['product:retailer_item_id', opts.sku],
+    ['product:mfr_part_no', opts.mpn],
+    ['product:upc', opts.gtin?.length === 12 ? opts.gtin : undefined],
+    ['product:ean', opts.gtin?.length === 13 ? opts.gtin : undefined],
+    ['product:rating:value', opts.aggregateRating?.value],
+    ['product:rating:scale', opts.aggregateRating && (opts.aggregateRating.best ?? 5)],
+    ['product:rating:count', opts.aggregateRating?.count]
+  ]
+
+  const shipping = opts.shipping && ([] as ProductShipping[]).concat(opts.shipping)[0]
+  if (shipping) {
+    meta.push(['product:shipping_cost:amount', shipping.rate], ['product:shipping_cost:currency', opts.currency])
+  }
+
+  return meta
+    .filter(([, content]) => content !== undefined && content !== '')
+    .map(([property, content]) => ({ property, content: String(content) }))
 }
 
 /**
@@ -112,13 +269,18 @@ export interface ProductOptions {
  * @remarks
  * - Sets title, description, and canonical link.  
  * - Builds Open Graph metadata including images.  
- * - Appends product-specific meta tags for price, currency, and availability.
- * - Includes JSON-LD structured data for products.
+ * - Appends product:* meta tags for price, availability, condition, identifiers, rating and shipping.
+ * - Includes Product JSON-LD with an Offer, or an AggregateOffer for price
+ *   ranges, plus identifiers, ratings, reviews, shipping and return policy
+ *   for merchant listings.
  *
  * @param opts - Configuration values specific to the product.
  * @returns A `SeoConfig` ready for `<SeoTags>`.
  */
 export function productPreset(opts: ProductOptions): SeoConfig {
+  const details = offerDetails(opts)
+  const rating = opts.aggregateRating
+
   return {
     title: opts.name,
     description: opts.description,
@@ -130,32 +292,31 @@ export function productPreset(opts: ProductOptions): SeoConfig {
       url: opts.url,
       images: opts.images?.map(url => ({ url }))
     },
-    twitter: {
-      card: 'summary_large_image',
-      title: opts.name,
-      description: opts.description,
-      image: opts.images?.[0] ?? ''
-    },
-    extraMeta: [
-      { property: 'product:price:amount', content: opts.price },
-      { property: 'product:price:currency', content: opts.currency },
-      { property: 'product:availability', content: opts.availability }
-    ],
-    structuredData: [{
-      '@context': 'https://schema.org',
-      '@type': 'Product',
+    twitter: { card: 'summary_large_image' },
+    extraMeta: productMeta(opts),
+    structuredData: [productSchema({
       name: opts.name,
       description: opts.description,
       image: opts.images,
+      sku: opts.sku,
+      gtin: opts.gtin,
+      mpn: opts.mpn,
       brand: opts.brand ? { '@type': 'Brand', name: opts.brand } : undefined,
       category: opts.category,
-      offers: {
-        '@type': 'Offer',
-        price: opts.price,
-        priceCurrency: opts.currency,
-        availability: `https://schema.org/${opts.availability}`
-      }
-    }]
+      offers: opts.price !== undefined
+        ? { '@type': 'Offer', price: opts.price, ...details }
+        : { '@type': 'AggregateOffer', lowPrice: opts.lowPrice, highPrice: opts.highPrice, offerCount: opts.offerCount, ...details },
+      aggregateRating: rating
+        ? { '@type': 'AggregateRating', ratingValue: rating.value, ratingCount: rating.count, bestRating: rating.best }
+        : undefined,
+      review: opts.reviews?.map(review => ({
+        '@type': 'Review',
+        author: { '@type': 'Person', name: review.author },
+        reviewRating: { '@type': 'Rating', ratingValue: review.rating, bestRating: review.bestRating },
+        reviewBody: review.body,
+        datePublished: review.datePublished
+      }))
+    })]
   }
 }
 
@@ -163,10 +324,10 @@ export function productPreset(opts: ProductOptions): SeoConfig {
  * Options for generating SEO metadata for a generic page.
  */
 export interface PageOptions {
-  /** The page title */
-  title: string
-  /** Meta description */
-  description: string
+  /** The page title, or a message key */
+  title: SeoText
+  /** Meta description, or a message key */
+  description: SeoText
   /** Canonical URL or path */
   url: string
   /** Optional OG image */
@@ -177,29 +338,34 @@ export interface PageOptions {
 
 /**
  * Generate SEO config for a generic page.
- * 
+ *
+ * @example
+ * ```tsx
+ * const { translate } = useSeo()
+ * <SeoTags {...pagePreset({ title: { key: 'about.title' }, description: { key: 'about.description' }, url: '/about' }, translate)} />
+ * ```
+ *
  * @param opts - Page options
+ * @param translate - Resolves message keys in `opts`, usually `useSeo().translate`
  * @returns A `SeoConfig` for the page
  */
-export function pagePreset(opts: PageOptions): SeoConfig {
+export function pagePreset(opts: PageOptions, translate?: SeoTranslate): SeoConfig {
+  const title = resolveText(opts.title, translate)
+  const description = resolveText(opts.description, translate)
+
   return {
-    title: opts.title,
-    description: opts.description,
+    title,
+    description,
     canonical: opts.url,
     openGraph: {
       type: 'website',
-      title: opts.title,
-      description: opts.description,
+      title,
+      description,
       url: opts.url,
       siteName: opts.siteName,
       images: opts.image ? [{ url: opts.image }] : undefined
     },
-    twitter: {
-      card: opts.image ? 'summary_large_image' : 'summary',
-      title: opts.title,
-      description: opts.description,
-      image: opts.image
-    }
+    twitter: { card: opts.image ? 'summary_large_image' : 'summary' }
   }
 }
 
@@ -207,16 +373,16 @@ export function pagePreset(opts: PageOptions): SeoConfig {
  * Options for social-media focused SEO.
  */
 export interface SocialOptions {
-  /** Page title for social shares */
-  title: string
-  /** Description for social cards */
-  description: string
+  /** Page title for social shares, or a message key */
+  title: SeoText
+  /** Description for social cards, or a message key */
+  description: SeoText
   /** Full URL of the page */
   url: string
   /** Main image for social sharing (required) */
   image: string
-  /** Image alt text */
-  imageAlt?: string
+  /** Image alt text, or a message key */
+  imageAlt?: SeoText
   /** Site name */
   siteName?: string
   /** Twitter @handle for the site */
@@ -229,22 +395,27 @@ export interface SocialOptions {
  * Generate SEO config optimized for social media sharing.
  * 
  * @param opts - Social media options
+ * @param translate - Resolves message keys in `opts`, usually `useSeo().translate`
  * @returns A `SeoConfig` optimized for social shares
  */
-export function socialPreset(opts: SocialOptions): SeoConfig {
+export function socialPreset(opts: SocialOptions, translate?: SeoTranslate): SeoConfig {
+  const title = resolveText(opts.title, translate)
+  const description = resolveText(opts.description, translate)
+  const imageAlt = resolveText(opts.imageAlt, translate)
+
   return {
-    title: opts.title,
-    description: opts.description,
+    title,
+    description,
     canonical: opts.url,
     openGraph: {
       type: 'website',
-      title: opts.title,
-      description: opts.description,
+      title,
+      description,
       url: opts.url,
       siteName: opts.siteName,
       images: [{
         url: opts.image,
-        alt: opts.imageAlt,
+        alt: imageAlt,
         width: 1200,
         height: 630
       }]
@@ -252,11 +423,623 @@ export function socialPreset(opts: SocialOptions): SeoConfig {
     twitter: {
       card: 'summary_large_image',
       site: opts.twitterSite,
-      creator: opts.twitterCreator,
+      creator: opts.twitterCreator
+    }
+  }
+}
+
+/**
+ * Options for a paginated listing page (blog index, category, search results).
+ */
+export interface ListingOptions {
+  /** Listing title, e.g. "Blog", or a message key */
+  title: SeoText
+  /** Listing description, or a message key */
+  description: SeoText
+  /** URL or path of the first page, e.g. "/blog" */
+  url: string
+  /** Current page, starting at 1 */
+  page: number
+  /** Total number of pages */
+  totalPages: number
+  /** Query parameter carrying the page number. Defaults to "page". */
+  pageParam?: string
+  /** Pages after this one get `noindex,follow` */
+  noindexAfter?: number
+  /** Optional site name */
+  siteName?: string
+  /** Optional OG image */
+  image?: string
+  /**
+   * Message for titles after page 1, given `title` and `page` values.
+   * Defaults to "{title} – Page {page}".
+   */
+  pageTitle?: SeoMessage
+}
+
+/**
+ * Generate SEO config for a paginated listing page.
+ *
+ * @remarks
+ * - Page 1 lives at `url`; later pages add `?page=N` (or `pageParam`).
+ * - Canonical and og:url point at the current page, not page 1.
+ * - Adds rel="prev"/"next" links and `noindex,follow` after `noindexAfter`.
+ * - Pages after the first get " – Page N" appended to the title (see `pageTitle`).
+ *
+ * @param opts - Listing options
+ * @param translate - Resolves message keys in `opts`, usually `useSeo().translate`
+ * @returns A `SeoConfig` for the listing page
+ */
+export function listingPreset(opts: ListingOptions, translate?: SeoTranslate): SeoConfig {
+  const param = opts.pageParam ?? 'page'
+  const urlFor = (page: number) => {
+    if (page <= 1) return opts.url
+    const separator = opts.url.indexOf('?') === -1 ? '?' : '&'
+    return `${opts.url}${separator}${param}=${page}`
+  }
+  const description = resolveText(opts.description, translate)
+  let title = resolveText(opts.title, translate)
+  if (opts.page > 1) {
+    title = opts.pageTitle
+      ? resolveText({ ...opts.pageTitle, values: { ...opts.pageTitle.values, title, page: opts.page } }, translate)
+      : `${title} – Page ${opts.page}`
+  }
+
+  return {
+    title,
+    description,
+    pagination: {
+      current: opts.page,
+      total: opts.totalPages,
+      urlFor,
+      noindexAfter: opts.noindexAfter
+    },
+    openGraph: {
+      type: 'website',
+      title,
+      description,
+      siteName: opts.siteName,
+      images: opts.image ? [{ url: opts.image }] : undefined
+    },
+    twitter: { card: opts.image ? 'summary_large_image' : 'summary' }
+  }
+}
+
+/** Fields shared by every content preset below */
+interface CardOptions {
+  title: string
+  description: string
+  url: string
+  image?: string
+  siteName?: string
+  type: string
+}
+
+/**
+ * Title, description, canonical, Open Graph and Twitter fields in the same
+ * shape for every preset: the card is large when there is an image.
+ */
+function cardConfig(opts: CardOptions): SeoConfig {
+  return {
+    title: opts.title,
+    description: opts.description,
+    canonical: opts.url,
+    openGraph: {
+      type: opts.type,
       title: opts.title,
       description: opts.description,
+      url: opts.url,
+      siteName: opts.siteName,
+      images: opts.image ? [{ url: opts.image }] : undefined
+    },
+    twitter: { card: opts.image ? 'summary_large_image' : 'summary' }
+  }
+}
+
+/** Format seconds as an ISO 8601 duration, e.g. 5430 → "PT1H30M30S" */
+function isoDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = Math.round(seconds % 60)
+  return `PT${h ? `${h}H` : ''}${m ? `${m}M` : ''}${s || (!h && !m) ? `${s}S` : ''}`
+}
+
+/**
+ * Options for a video page.
+ */
+export interface VideoOptions {
+  /** Video title */
+  title: string
+  /** Video description */
+  description: string
+  /** Canonical URL or path of the watch page */
+  url: string
+  /** Thumbnail image URL */
+  thumbnail: string
+  /** ISO date the video was uploaded */
+  uploadDate: string
+  /** Length in seconds */
+  duration?: number
+  /** URL of the video file; also emitted as og:video */
+  contentUrl?: string
+  /** MIME type of `contentUrl`, e.g. "video/mp4" */
+  contentType?: string
+  /** Frame width in pixels */
+  width?: number
+  /** Frame height in pixels */
+  height?: number
+  /** URL of the embeddable player */
+  embedUrl?: string
+  /** Open Graph video type. Defaults to 'video.other'. */
+  type?: 'video.movie' | 'video.episode' | 'video.tv_show' | 'video.other'
+  /** Optional release date, ISO format */
+  releaseDate?: string
+  /** Optional actors and their roles */
+  actors?: Array<{ actor: string; role?: string }>
+  /** Optional director names */
+  directors?: string[]
+  /** Optional tags */
+  tags?: string[]
+  /** Optional site name */
+  siteName?: string
+}
+
+/**
+ * Generate SEO config for a video page.
+ *
+ * @remarks
+ * - Emits the file as og:video and video:* metadata (duration, release date, actors, ...).
+ * - Uses the thumbnail as og:image and the large Twitter card.
+ * - Includes a VideoObject JSON-LD node with an ISO 8601 duration.
+ *
+ * @param opts - Video options
+ * @returns A `SeoConfig` for the video page
+ */
+export function videoPreset(opts: VideoOptions): SeoConfig {
+  const config = cardConfig({ ...opts, image: opts.thumbnail, type: opts.type ?? 'video.other' })
+
+  return {
+    ...config,
+    openGraph: {
+      ...config.openGraph,
+      videos: opts.contentUrl
+        ? [{ url: opts.contentUrl, type: opts.contentType, width: opts.width, height: opts.height }]
+        : undefined,
+      video: {
+        duration: opts.duration,
+        releaseDate: opts.releaseDate,
+        actors: opts.actors,
+        directors: opts.directors,
+        tags: opts.tags
+      }
+    },
+    structuredData: [videoObjectSchema({
+      name: opts.title,
+      description: opts.description,
+      thumbnailUrl: opts.thumbnail,
+      uploadDate: opts.uploadDate,
+      duration: opts.duration !== undefined ? isoDuration(opts.duration) : undefined,
+      contentUrl: opts.contentUrl,
+      embedUrl: opts.embedUrl
+    })]
+  }
+}
+
+/**
+ * Options for a podcast episode page.
+ */
+export interface PodcastEpisodeOptions {
+  /** Episode title */
+  title: string
+  /** Episode summary */
+  description: string
+  /** Canonical URL or path of the episode page */
+  url: string
+  /** URL of the audio file */
+  audioUrl: string
+  /** Name of the show */
+  seriesName: string
+  /** Optional URL of the show page */
+  seriesUrl?: string
+  /** ISO date the episode was published */
+  datePublished: string
+  /** Length in seconds */
+  duration?: number
+  /** Optional episode number */
+  episodeNumber?: number
+  /** Optional cover art URL */
+  image?: string
+  /** Optional site name */
+  siteName?: string
+}
+
+/**
+ * Generate SEO config for a podcast episode page.
+ *
+ * @remarks
+ * - Emits og:audio for the episode file.
+ * - Includes a PodcastEpisode JSON-LD node linked to its PodcastSeries.
+ *
+ * @param opts - Podcast episode options
+ * @returns A `SeoConfig` for the episode page
+ */
+export function podcastEpisodePreset(opts: PodcastEpisodeOptions): SeoConfig {
+  const duration = opts.duration !== undefined ? isoDuration(opts.duration) : undefined
+
+  const config = cardConfig({ ...opts, type: 'website' })
+
+  return {
+    ...config,
+    openGraph: { ...config.openGraph, audio: [{ url: opts.audioUrl }] },
+    structuredData: [podcastEpisodeSchema({
+      name: opts.title,
+      description: opts.description,
+      url: opts.url,
+      datePublished: opts.datePublished,
+      duration,
+      episodeNumber: opts.episodeNumber,
       image: opts.image,
-      imageAlt: opts.imageAlt
-    }
+      associatedMedia: { '@type': 'AudioObject', contentUrl: opts.audioUrl, duration },
+      partOfSeries: { '@type': 'PodcastSeries', name: opts.seriesName, url: opts.seriesUrl }
+    })]
+  }
+}
+
+/** Physical address of an event */
+export interface EventVenue {
+  name: string
+  streetAddress?: string
+  addressLocality?: string
+  addressRegion?: string
+  postalCode?: string
+  /** ISO 3166-1 country code */
+  addressCountry: string
+}
+
+interface EventBaseOptions {
+  /** Event name */
+  name: string
+  /** Event description */
+  description: string
+  /** Canonical URL or path of the event page */
+  url: string
+  /** ISO start date/time */
+  startDate: string
+  /** Optional ISO end date/time */
+  endDate?: string
+  /** Ticket offers */
+  offers?: Array<{
+    price: string | number
+    currency: string
+    availability?: 'InStock' | 'SoldOut' | 'PreOrder'
+    url?: string
+    validFrom?: string
+  }>
+  /** Defaults to scheduled */
+  status?: 'EventScheduled' | 'EventCancelled' | 'EventPostponed' | 'EventRescheduled' | 'EventMovedOnline'
+  /** Optional organizer */
+  organizer?: { name: string; url?: string }
+  /** Optional performer names */
+  performers?: string[]
+  /** Optional event image */
+  image?: string
+  /** Optional site name */
+  siteName?: string
+}
+
+/**
+ * Options for an event page. At least one of `venue` and `onlineUrl` is
+ * required; set both for a hybrid event.
+ */
+export type EventOptions = EventBaseOptions & (
+  | { venue: EventVenue; onlineUrl?: string }
+  | { venue?: EventVenue; onlineUrl: string }
+)
+
+/**
+ * Generate SEO config for an event page.
+ *
+ * @remarks
+ * - Includes an Event JSON-LD node with location and offers.
+ * - The attendance mode follows from `venue` and `onlineUrl`.
+ *
+ * @param opts - Event options
+ * @returns A `SeoConfig` for the event page
+ */
+export function eventPreset(opts: EventOptions): SeoConfig {
+  const { venue } = opts
+  const locations: Array<PlaceSchema | VirtualLocationSchema> = []
+  if (venue) {
+    locations.push({
+      '@type': 'Place',
+      name: venue.name,
+      address: {
+        '@type': 'PostalAddress',
+        streetAddress: venue.streetAddress,
+        addressLocality: venue.addressLocality,
+        addressRegion: venue.addressRegion,
+        postalCode: venue.postalCode,
+        addressCountry: venue.addressCountry
+      }
+    })
+  }
+  if (opts.onlineUrl) locations.push({ '@type': 'VirtualLocation', url: opts.onlineUrl })
+
+  const attendanceMode: EventSchema['eventAttendanceMode'] = venue && opts.onlineUrl
+    ? 'https://schema.org/MixedEventAttendanceMode'
+    : opts.onlineUrl ? 'https://schema.org/OnlineEventAttendanceMode' : 'https://schema.org/OfflineEventAttendanceMode'
+
+  return {
+    ...cardConfig({ ...opts, title: opts.name, type: 'website' }),
+    structuredData: [eventSchema({
+      name: opts.name,
+      description: opts.description,
+      startDate: opts.startDate,
+      endDate: opts.endDate,
+      image: opts.image,
+      location: locations.length === 1 ? locations[0] : locations,
+      eventStatus: `https://schema.org/${opts.status ?? 'EventScheduled'}` as EventSchema['eventStatus'],
+      eventAttendanceMode: attendanceMode,
+      offers: opts.offers?.map(offer => ({
+        '@type': 'Offer',
+        price: offer.price,
+        priceCurrency: offer.currency,
+        availability: offer.availability ? `https://schema.org/${offer.availability}` : undefined,
+        url: offer.url ?? opts.url,
+        validFrom: offer.validFrom
+      })),
+      organizer: opts.organizer ? { '@type': 'Organization', ...opts.organizer } : undefined,
+      performer: opts.performers?.map(name => ({ '@type': 'Person', name }))
+    })]
+  }
+}
+
+/**
+ * Options for a recipe page.
+ */
+export interface RecipeOptions {
+  /** Recipe name */
+  name: string
+  /** Short description */
+  description: string
+  /** Canonical URL or path */
+  url: string
+  /** Image URLs; the first one is used for social cards */
+  images: string[]
+  /** Ingredients, one per line */
+  ingredients: string[]
+  /** Instruction steps in order */
+  instructions: string[]
+  /** Optional author name */
+  author?: string
+  /** Optional ISO publish date */
+  datePublished?: string
+  /** Preparation time in minutes */
+  prepMinutes?: number
+  /** Cooking time in minutes */
+  cookMinutes?: number
+  /** Optional yield, e.g. "4 servings" */
+  yield?: string
+  /** Optional category, e.g. "Dessert" */
+  category?: string
+  /** Optional cuisine, e.g. "Italian" */
+  cuisine?: string
+  /** Optional calories per serving, e.g. "270 calories" */
+  calories?: string
+  /** Optional keywords */
+  keywords?: string[]
+  /** Optional site name */
+  siteName?: string
+}
+
+/**
+ * Generate SEO config for a recipe page.
+ *
+ * @remarks
+ * - Includes a Recipe JSON-LD node with HowToStep instructions.
+ * - Prep and cook times become ISO 8601 durations; total time is their sum.
+ *
+ * @param opts - Recipe options
+ * @returns A `SeoConfig` for the recipe page
+ */
+export function recipePreset(opts: RecipeOptions): SeoConfig {
+  const minutes = (value?: number) => value !== undefined ? isoDuration(value * 60) : undefined
+  const total = opts.prepMinutes !== undefined || opts.cookMinutes !== undefined
+    ? (opts.prepMinutes ?? 0) + (opts.cookMinutes ?? 0)
+    : undefined
+
+  return {
+    ...cardConfig({ ...opts, title: opts.name, image: opts.images[0], type: 'article' }),
+    author: opts.author,
+    structuredData: [recipeSchema({
+      name: opts.name,
+      description: opts.description,
+      image: opts.images,
+      author: opts.author ? { '@type': 'Person', name: opts.author } : undefined,
+      datePublished: opts.datePublished,
+      prepTime: minutes(opts.prepMinutes),
+      cookTime: minutes(opts.cookMinutes),
+      totalTime: minutes(total),
+      recipeYield: opts.yield,
+      recipeCategory: opts.category,
+      recipeCuisine: opts.cuisine,
+      recipeIngredient: opts.ingredients,
+      recipeInstructions: opts.instructions.map(text => ({ '@type': 'HowToStep', text })),
+      nutrition: opts.calories ? { '@type': 'NutritionInformation', calories: opts.calories } : undefined,
+      keywords: opts.keywords?.join(', ')
+    })]
+  }
+}
+
+/**
+ * Options for an author or user profile page.
+ */
+export interface ProfileOptions {
+  /** Display name */
+  name: string
+  /** Short bio */
+  description: string
+  /** Canonical URL or path of the profile */
+  url: string
+  /** Optional first name */
+  firstName?: string
+  /** Optional last name */
+  lastName?: string
+  /** Optional username */
+  username?: string
+  /** Optional gender, as allowed by profile:gender */
+  gender?: 'male' | 'female'
+  /** Optional avatar URL */
+  image?: string
+  /** Optional job title */
+  jobTitle?: string
+  /** Other profiles of the same person (social accounts, website) */
+  sameAs?: string[]
+  /** Optional Twitter @handle of the person */
+  twitterHandle?: string
+  /** Optional site name */
+  siteName?: string
+}
+
+/**
+ * Generate SEO config for a profile page.
+ *
+ * @remarks
+ * - Sets og:type "profile" with profile:* properties.
+ * - Includes a ProfilePage JSON-LD node whose main entity is a Person.
+ *
+ * @param opts - Profile options
+ * @returns A `SeoConfig` for the profile page
+ */
+export function profilePreset(opts: ProfileOptions): SeoConfig {
+  const config = cardConfig({ ...opts, title: opts.name, type: 'profile' })
+
+  return {
+    ...config,
+    openGraph: {
+      ...config.openGraph,
+      profile: {
+        firstName: opts.firstName,
+        lastName: opts.lastName,
+        username: opts.username,
+        gender: opts.gender
+      }
+    },
+    twitter: { ...config.twitter, creator: opts.twitterHandle },
+    structuredData: [profilePageSchema({
+      url: opts.url,
+      mainEntity: {
+        '@type': 'Person',
+        name: opts.name,
+        givenName: opts.firstName,
+        familyName: opts.lastName,
+        alternateName: opts.username,
+        description: opts.description,
+        image: opts.image,
+        jobTitle: opts.jobTitle,
+        url: opts.url,
+        sameAs: opts.sameAs
+      }
+    })]
+  }
+}
+
+/**
+ * Options for an FAQ page.
+ */
+export interface FaqOptions {
+  /** Page title */
+  title: string
+  /** Meta description */
+  description: string
+  /** Canonical URL or path */
+  url: string
+  /** Questions and answers in display order */
+  questions: Array<{ question: string; answer: string }>
+  /** Optional OG image */
+  image?: string
+  /** Optional site name */
+  siteName?: string
+}
+
+/**
+ * Generate SEO config for an FAQ page.
+ *
+ * @remarks
+ * Includes an FAQPage JSON-LD node with one Question per entry.
+ *
+ * @param opts - FAQ options
+ * @returns A `SeoConfig` for the FAQ page
+ */
+export function faqPreset(opts: FaqOptions): SeoConfig {
+  return {
+    ...cardConfig({ ...opts, type: 'website' }),
+    structuredData: [faqPageSchema(opts.questions)]
+  }
+}
+
+/**
+ * Options for a software or app landing page.
+ */
+export interface SoftwareAppOptions {
+  /** Application name */
+  name: string
+  /** Short description */
+  description: string
+  /** Canonical URL or path */
+  url: string
+  /** Supported operating systems, e.g. "Windows, macOS" or "ANDROID" */
+  operatingSystem: string
+  /** schema.org category, e.g. "GameApplication" or "BusinessApplication" */
+  category: string
+  /** Price as a string; "0" for free apps */
+  price: string
+  /** Currency code in ISO 4217 format. Defaults to "USD". */
+  currency?: string
+  /** Defaults to 'SoftwareApplication' */
+  type?: SoftwareApplicationSchema['@type']
+  /** Optional average rating and number of ratings */
+  rating?: { value: number; count: number }
+  /** Optional current version */
+  version?: string
+  /** Optional download URL */
+  downloadUrl?: string
+  /** Optional icon or hero image */
+  image?: string
+  /** Optional screenshot URLs */
+  screenshots?: string[]
+  /** Optional site name */
+  siteName?: string
+}
+
+/**
+ * Generate SEO config for a software application page.
+ *
+ * @remarks
+ * Includes a SoftwareApplication (or Mobile/WebApplication) JSON-LD node
+ * with its offer and, when given, an aggregate rating.
+ *
+ * @param opts - Software application options
+ * @returns A `SeoConfig` for the application page
+ */
+export function softwareAppPreset(opts: SoftwareAppOptions): SeoConfig {
+  return {
+    ...cardConfig({ ...opts, title: opts.name, type: 'website' }),
+    structuredData: [softwareApplicationSchema({
+      type: opts.type,
+      name: opts.name,
+      description: opts.description,
+      url: opts.url,
+      operatingSystem: opts.operatingSystem,
+      applicationCategory: opts.category,
+      offers: { '@type': 'Offer', price: opts.price, priceCurrency: opts.currency ?? 'USD' },
+      aggregateRating: opts.rating
+        ? { '@type': 'AggregateRating', ratingValue: opts.rating.value, ratingCount: opts.rating.count }
+        : undefined,
+      softwareVersion: opts.version,
+      downloadUrl: opts.downloadUrl,
+      image: opts.image,
+      screenshot: opts.screenshots
+    })]
   }
 }
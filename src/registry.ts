@@ -0,0 +1,136 @@
+import type { HeadEntry, HeadRegistry, SeoConfig, StructuredData } from './types'
+import { isDev, isEqual, isServer } from './utils'
+import { mergeConfigs } from './merge'
+import { createAttributeWriter, createHeadWriter, AttributeWriter, HeadWriter } from './head'
+import { buildBodyAttributes, buildHtmlAttributes, buildTags } from './tags'
+import { normalizeConfigUrls } from './url'
+import { mergeStructuredData } from './jsonld'
+import { collectBreadcrumbs } from './breadcrumbs'
+import { validateSeoConfig, reportSeoIssues } from './validate'
+
+/**
+ * Create a registry that stacks `SeoTags` instances like react-helmet.
+ *
+ * @remarks
+ * Entries are ordered by the key handed out from `nextOrder()` on an
+ * instance's first render. That is first-mount order, not tree position:
+ * it matches tree order when a layout and its page render together (the
+ * layout renders first), but an instance that first renders after one it
+ * wraps (conditional, lazy or data-gated) is ordered after it.
+ * Resolving folds every entry's props together so the last instance wins
+ * per field (arrays follow the last provider's `mergeStrategies`), then
+ * applies the provider defaults of the last instance rendered under a
+ * provider and resolves URL fields against `baseUrl`. Structured data is
+ * the one exception to "last wins": nodes from every layer are kept and merged
+ * by `@id`. Breadcrumbs are collected likewise, one `breadcrumb` per layer.
+ * When an instance unmounts the head is rewritten from the remaining entries,
+ * which restores the values the outer layouts asked for. `<html>` and
+ * `<body>` attributes are written and restored the same way.
+ *
+ * In development builds the resolved config is validated once the current
+ * commit has settled, and any issues are logged as a console group.
+ *
+ * @returns A new, empty `HeadRegistry`.
+ */
+export function createHeadRegistry(): HeadRegistry {
+  const entries = new Map<number, HeadEntry>()
+  let counter = 0
+  let writer: HeadWriter | null = null
+  let htmlWriter: AttributeWriter | null = null
+  let bodyWriter: AttributeWriter | null = null
+  let applied: SeoConfig | null = null
+  let reportPending = false
+  let lastReport = ''
+
+  const resolve = (): SeoConfig | null => {
+    if (!entries.size) return null
+
+    const orders: number[] = []
+    entries.forEach((_, order) => orders.push(order))
+    orders.sort((a, b) => a - b)
+
+    // Entries from outside any provider (a vanilla manager, a stray
+    // SeoTags) defer to the last provider-scoped entry's defaults and strategies.
+    const scoped = orders.map(order => entries.get(order)!).filter(entry => entry.mergeConfig)
+    const last: Partial<HeadEntry> = scoped[scoped.length - 1] || {}
+    const mergeConfig = last.mergeConfig || ((c: SeoConfig) => c)
+    let config: SeoConfig = {}
+    const layers: SeoConfig[] = []
+    const structuredData: Array<StructuredData[] | undefined> = []
+    orders.forEach(order => {
+      const entryConfig = entries.get(order)!.config
+      config = mergeConfigs(config, entryConfig, last.mergeStrategies)
+      layers.push(entryConfig)
+      structuredData.push(entryConfig.structuredData)
+    })
+
+    // Structured data is combined rather than replaced: strip it before
+    // merging defaults so the provider's own nodes come through, then
+    // append every layer's nodes after them.
+    const merged = mergeConfig({ ...config, structuredData: undefined })
+    merged.structuredData = mergeStructuredData([merged.structuredData].concat(structuredData))
+
+    // Each layer contributes its own crumb unless a full trail is given
+    if (!merged.breadcrumbs) {
+      const trail = collectBreadcrumbs(layers)
+      if (trail.length) merged.breadcrumbs = trail
+    }
+
+    return normalizeConfigUrls(merged)
+  }
+
+  // Deferred so that a layout and page mounting in the same commit are
+  // validated together rather than one at a time.
+  const scheduleReport = () => {
+    if (!isDev || reportPending) return
+    reportPending = true
+    Promise.resolve().then(() => {
+      reportPending = false
+      const config = resolve()
+      if (!config) {
+        // Report again once something mounts after the head was emptied
+        lastReport = ''
+        return
+      }
+
+      const issues = validateSeoConfig(config)
+      const key = JSON.stringify(issues)
+      if (key === lastReport) return
+      lastReport = key
+      reportSeoIssues(issues)
+    })
+  }
+
+  const apply = () => {
+    // Runtime safety: skip when no browser globals are available.
+    if (isServer) return
+    if (!writer) writer = createHeadWriter(document.head)
+    if (!htmlWriter) htmlWriter = createAttributeWriter(document.documentElement)
+    if (!bodyWriter) bodyWriter = createAttributeWriter(document.body)
+
+    const config = resolve()
+    if (applied && isEqual(config, applied)) return
+    applied = config
+
+    writer.apply(config ? buildTags(config) : [])
+    htmlWriter.apply(config ? buildHtmlAttributes(config) : {})
+    bodyWriter.apply(config ? buildBodyAttributes(config) : {})
+    scheduleReport()
+  }
+
+  return {
+    nextOrder: () => ++counter,
+    set: (order, entry) => {
+      entries.set(order, entry)
+      apply()
+    },
+    remove: order => {
+      if (!entries.delete(order)) return
+      apply()
+    },
+    resolve
+  }
+}
+
+/** Registry used by `SeoTags` rendered outside of any `SeoProvider` */
+export const defaultRegistry = createHeadRegistry()
@@ -0,0 +1,105 @@
+import type { RobotsDirectives, SeoConfig } from './types'
+
+/** Directives parsed from a robots string, plus tokens with no typed field */
+interface ParsedRobots extends RobotsDirectives {
+  extra?: string[]
+}
+
+/**
+ * Parse a robots meta string into directives.
+ * "all" and "none" are expanded; unknown tokens are kept in `extra`.
+ *
+ * @param robots - e.g. "noindex, follow, max-snippet:50".
+ */
+export function parseRobots(robots: string | undefined): ParsedRobots {
+  const result: ParsedRobots = {}
+  if (!robots) return result
+
+  robots.split(',').forEach(raw => {
+    const token = raw.trim()
+    if (!token) return
+    const colon = token.indexOf(':')
+    const name = (colon === -1 ? token : token.slice(0, colon)).toLowerCase()
+    const value = colon === -1 ? '' : token.slice(colon + 1).trim()
+
+    switch (name) {
+      case 'all': result.index = true; result.follow = true; break
+      case 'none': result.index = false; result.follow = false; break
+      case 'index': result.index = true; break
+      case 'noindex': result.index = false; break
+      case 'follow': result.follow = true; break
+      case 'nofollow': result.follow = false; break
+      case 'noarchive': result.noarchive = true; break
+      case 'nosnippet': result.nosnippet = true; break
+      case 'noimageindex': result.noimageindex = true; break
+      case 'notranslate': result.notranslate = true; break
+      case 'max-snippet': result.maxSnippet = Number(value); break
+      case 'max-image-preview': result.maxImagePreview = value as RobotsDirectives['maxImagePreview']; break
+      case 'max-video-preview': result.maxVideoPreview = Number(value); break
+      case 'unavailable_after': result.unavailableAfter = value; break
+      default: result.extra = (result.extra || []).concat(token)
+    }
+  })
+
+  return result
+}
+
+/**
+ * Serialize directives into a robots meta string.
+ *
+ * The order is fixed (index, follow, boolean flags, limits, then any extra
+ * tokens), so equal directives always produce the same string.
+ *
+ * @param directives - Directives to serialize.
+ * @returns Comma-separated directives, or "" when none are set.
+ */
+export function serializeRobots(directives: ParsedRobots): string {
+  const parts: string[] = []
+  const d = directives
+
+  if (d.index !== undefined) parts.push(d.index ? 'index' : 'noindex')
+  if (d.follow !== undefined) parts.push(d.follow ? 'follow' : 'nofollow')
+  if (d.noarchive) parts.push('noarchive')
+  if (d.nosnippet) parts.push('nosnippet')
+  if (d.noimageindex) parts.push('noimageindex')
+  if (d.notranslate) parts.push('notranslate')
+  if (d.maxSnippet !== undefined) parts.push(`max-snippet:${d.maxSnippet}`)
+  if (d.maxImagePreview) parts.push(`max-image-preview:${d.maxImagePreview}`)
+  if (d.maxVideoPreview !== undefined) parts.push(`max-video-preview:${d.maxVideoPreview}`)
+  if (d.unavailableAfter) parts.push(`unavailable_after:${d.unavailableAfter}`)
+  if (d.extra) parts.push(...d.extra)
+
+  return parts.join(',')
+}
+
+/**
+ * Combine the `robots` string and `robotsDirectives` of a config, the typed
+ * directives winning. The `noindex`/`nofollow` shortcuts are not applied.
+ *
+ * @param config - Merged SEO configuration.
+ */
+export function declaredRobots(config: SeoConfig): ParsedRobots {
+  const directives: ParsedRobots = { ...parseRobots(config.robots) }
+  const typed = config.robotsDirectives || {}
+  ;(Object.keys(typed) as (keyof RobotsDirectives)[]).forEach(key => {
+    if (typed[key] !== undefined) (directives as Record<string, unknown>)[key] = typed[key]
+  })
+  return directives
+}
+
+/**
+ * Work out the content of meta[name="robots"] for a config.
+ *
+ * Layers, later winning per directive: the `robots` string,
+ * `robotsDirectives`, then the `noindex`/`nofollow` shortcuts.
+ *
+ * @param config - Merged SEO configuration.
+ * @returns The robots content, or "" when nothing is set.
+ */
+export function resolveRobots(config: SeoConfig): string {
+  const directives = declaredRobots(config)
+  if (config.noindex === true) directives.index = false
+  if (config.nofollow === true) directives.follow = false
+
+  return serializeRobots(directives)
+}
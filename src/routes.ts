@@ -0,0 +1,74 @@
+import type { SeoConfig, SeoRoutes } from './types'
+
+/** Decode a path segment, keeping it as-is when it has a malformed escape */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+/**
+ * Match a pathname against a route pattern.
+ *
+ * @remarks
+ * Patterns use `:name` for a single segment and a trailing `*` for the rest
+ * of the path (available as `params['*']`). Trailing slashes are ignored,
+ * and segments with malformed escapes are passed through undecoded.
+ *
+ * @example
+ * ```ts
+ * matchPath('/blog/:slug', '/blog/hello-world') // { slug: 'hello-world' }
+ * matchPath('/docs/*', '/docs/a/b')            // { '*': 'a/b' }
+ * ```
+ *
+ * @param pattern - Route pattern, e.g. "/blog/:slug".
+ * @param pathname - Path to test, e.g. `window.location.pathname`.
+ * @returns Decoded params, or `null` when the path does not match.
+ */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean)
+  const pathParts = pathname.split('/').filter(Boolean)
+  const params: Record<string, string> = {}
+
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i]
+
+    if (part === '*' && i === patternParts.length - 1) {
+      params['*'] = pathParts.slice(i).map(decodeSegment).join('/')
+      return params
+    }
+
+    const segment = pathParts[i]
+    if (segment === undefined) return null
+
+    if (part.charAt(0) === ':') {
+      params[part.slice(1)] = decodeSegment(segment)
+    } else if (part !== segment) {
+      return null
+    }
+  }
+
+  return pathParts.length === patternParts.length ? params : null
+}
+
+/**
+ * Find the config for a pathname in a route table.
+ * The first matching pattern in declaration order wins.
+ *
+ * @param routes - Route table as passed to `SeoProvider`.
+ * @param pathname - Path to resolve.
+ * @returns The route's config, or `undefined` when nothing matches.
+ */
+export function resolveRoute(routes: SeoRoutes, pathname: string): SeoConfig | undefined {
+  const patterns = Object.keys(routes)
+  for (let i = 0; i < patterns.length; i++) {
+    const params = matchPath(patterns[i], pathname)
+    if (!params) continue
+
+    const entry = routes[patterns[i]]
+    return typeof entry === 'function' ? entry(params) : entry
+  }
+  return undefined
+}
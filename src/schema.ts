@@ -0,0 +1,664 @@
+// src/schema.ts
+/**
+ * Typed builders for common schema.org JSON-LD types.
+ *
+ * Each builder takes the properties of one type (without `@type` and
+ * `@context`), adds both, and strips `undefined` fields so the result can
+ * be passed straight into `SeoConfig.structuredData`.
+ */
+
+/** The JSON-LD context every top-level node is emitted with */
+export const SCHEMA_CONTEXT = 'https://schema.org'
+
+/** Adds `@context` to a top-level node */
+export type WithContext<T> = T & { '@context': typeof SCHEMA_CONTEXT }
+
+/** Pointer to a node declared elsewhere, e.g. `{ '@id': '#org' }` */
+export interface SchemaReference {
+  '@id': string
+}
+
+/** Omit that distributes over unions, so variant types keep their constraints */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+/** Builder input: a node without the fields the builder fills in */
+export type SchemaInput<T> = DistributiveOmit<T, '@type' | '@context'>
+
+// ---------------------------------------------------------------------------
+// Shared nested types
+// ---------------------------------------------------------------------------
+
+export interface ImageObjectSchema {
+  '@type': 'ImageObject'
+  url: string
+  width?: number
+  height?: number
+  caption?: string
+}
+
+export interface PersonSchema {
+  '@type': 'Person'
+  '@id'?: string
+  name: string
+  url?: string
+  image?: string
+  jobTitle?: string
+  description?: string
+  givenName?: string
+  familyName?: string
+  alternateName?: string
+  sameAs?: string[]
+}
+
+export interface ContactPointSchema {
+  '@type': 'ContactPoint'
+  contactType: string
+  telephone?: string
+  email?: string
+  areaServed?: string | string[]
+  availableLanguage?: string | string[]
+}
+
+export interface PostalAddressSchema {
+  '@type': 'PostalAddress'
+  streetAddress?: string
+  addressLocality?: string
+  addressRegion?: string
+  postalCode?: string
+  addressCountry: string
+}
+
+export interface GeoCoordinatesSchema {
+  '@type': 'GeoCoordinates'
+  latitude: number
+  longitude: number
+}
+
+export interface PlaceSchema {
+  '@type': 'Place'
+  name?: string
+  address: PostalAddressSchema
+  geo?: GeoCoordinatesSchema
+}
+
+export interface VirtualLocationSchema {
+  '@type': 'VirtualLocation'
+  url: string
+}
+
+/** Fields shared by Offer and AggregateOffer */
+interface OfferFields {
+  priceCurrency: string
+  availability?: string
+  url?: string
+  validFrom?: string
+  priceValidUntil?: string
+  /** e.g. "https://schema.org/NewCondition" */
+  itemCondition?: string
+  shippingDetails?: OfferShippingDetailsSchema | OfferShippingDetailsSchema[]
+  hasMerchantReturnPolicy?: MerchantReturnPolicySchema
+}
+
+export interface OfferSchema extends OfferFields {
+  '@type': 'Offer'
+  price: string | number
+}
+
+/** Price range across a product's variants */
+export interface AggregateOfferSchema extends OfferFields {
+  '@type': 'AggregateOffer'
+  lowPrice: string | number
+  highPrice: string | number
+  offerCount?: number
+}
+
+/** A range of days, as used for handling and transit times */
+export interface QuantitativeDaysSchema {
+  '@type': 'QuantitativeValue'
+  minValue: number
+  maxValue: number
+  unitCode: 'DAY'
+}
+
+export interface OfferShippingDetailsSchema {
+  '@type': 'OfferShippingDetails'
+  shippingRate: { '@type': 'MonetaryAmount'; value: string | number; currency: string }
+  shippingDestination: { '@type': 'DefinedRegion'; addressCountry: string | string[] }
+  deliveryTime?: {
+    '@type': 'ShippingDeliveryTime'
+    handlingTime: QuantitativeDaysSchema
+    transitTime: QuantitativeDaysSchema
+  }
+}
+
+interface MerchantReturnPolicyBase {
+  '@type': 'MerchantReturnPolicy'
+  /** ISO 3166-1 country code(s) the policy applies to */
+  applicableCountry: string | string[]
+  returnMethod?: 'https://schema.org/ReturnByMail' | 'https://schema.org/ReturnInStore' | 'https://schema.org/ReturnAtKiosk'
+  returnFees?: 'https://schema.org/FreeReturn' | 'https://schema.org/ReturnFeesCustomerResponsibility' | 'https://schema.org/ReturnShippingFees'
+}
+
+/** A finite return window needs `merchantReturnDays` */
+export type MerchantReturnPolicySchema =
+  | (MerchantReturnPolicyBase & {
+    returnPolicyCategory: 'https://schema.org/MerchantReturnFiniteReturnWindow'
+    merchantReturnDays: number
+  })
+  | (MerchantReturnPolicyBase & {
+    returnPolicyCategory: 'https://schema.org/MerchantReturnUnlimitedWindow' | 'https://schema.org/MerchantReturnNotPermitted'
+  })
+
+export interface RatingSchema {
+  '@type': 'Rating'
+  ratingValue: number
+  bestRating?: number
+  worstRating?: number
+}
+
+export interface MonetaryAmountSchema {
+  '@type': 'MonetaryAmount'
+  currency: string
+  value: {
+    '@type': 'QuantitativeValue'
+    value?: number
+    minValue?: number
+    maxValue?: number
+    unitText: 'HOUR' | 'DAY' | 'WEEK' | 'MONTH' | 'YEAR'
+  }
+}
+
+export interface OpeningHoursSpecificationSchema {
+  '@type': 'OpeningHoursSpecification'
+  dayOfWeek: string | string[]
+  opens: string
+  closes: string
+}
+
+export interface HowToStepSchema {
+  '@type': 'HowToStep'
+  text: string
+  name?: string
+  url?: string
+  image?: string
+}
+
+/** Who wrote or published something */
+export type SchemaAgent = PersonSchema | OrganizationSchema | SchemaReference
+
+// ---------------------------------------------------------------------------
+// Top-level types
+// ---------------------------------------------------------------------------
+
+export interface ArticleSchema {
+  '@type': 'Article' | 'BlogPosting' | 'NewsArticle'
+  '@id'?: string
+  headline: string
+  datePublished: string
+  author: SchemaAgent | SchemaAgent[]
+  description?: string
+  image?: string | string[]
+  dateModified?: string
+  publisher?: OrganizationSchema | SchemaReference
+  mainEntityOfPage?: string
+  articleSection?: string
+  keywords?: string[]
+}
+
+export interface ListItemSchema {
+  '@type': 'ListItem'
+  position: number
+  name: string
+  item?: string
+}
+
+export interface BreadcrumbListSchema {
+  '@type': 'BreadcrumbList'
+  '@id'?: string
+  itemListElement: ListItemSchema[]
+}
+
+export interface OrganizationSchema {
+  '@type': 'Organization'
+  '@id'?: string
+  name: string
+  url?: string
+  logo?: string | ImageObjectSchema
+  sameAs?: string[]
+  contactPoint?: ContactPointSchema | ContactPointSchema[]
+}
+
+export interface SearchActionSchema {
+  '@type': 'SearchAction'
+  target: { '@type': 'EntryPoint'; urlTemplate: string }
+  'query-input': string
+}
+
+export interface WebSiteSchema {
+  '@type': 'WebSite'
+  '@id'?: string
+  name: string
+  url: string
+  publisher?: OrganizationSchema | SchemaReference
+  potentialAction?: SearchActionSchema
+}
+
+export interface QuestionSchema {
+  '@type': 'Question'
+  name: string
+  acceptedAnswer: { '@type': 'Answer'; text: string }
+}
+
+export interface FAQPageSchema {
+  '@type': 'FAQPage'
+  '@id'?: string
+  mainEntity: QuestionSchema[]
+}
+
+export interface HowToSchema {
+  '@type': 'HowTo'
+  '@id'?: string
+  name: string
+  step: HowToStepSchema[]
+  description?: string
+  image?: string | string[]
+  /** ISO 8601 duration, e.g. "PT30M" */
+  totalTime?: string
+  supply?: string[]
+  tool?: string[]
+}
+
+export interface EventSchema {
+  '@type': 'Event'
+  '@id'?: string
+  name: string
+  startDate: string
+  location: PlaceSchema | VirtualLocationSchema | Array<PlaceSchema | VirtualLocationSchema>
+  endDate?: string
+  description?: string
+  image?: string | string[]
+  eventStatus?: 'https://schema.org/EventScheduled' | 'https://schema.org/EventCancelled' | 'https://schema.org/EventPostponed' | 'https://schema.org/EventRescheduled' | 'https://schema.org/EventMovedOnline'
+  eventAttendanceMode?: 'https://schema.org/OfflineEventAttendanceMode' | 'https://schema.org/OnlineEventAttendanceMode' | 'https://schema.org/MixedEventAttendanceMode'
+  offers?: OfferSchema | OfferSchema[]
+  organizer?: SchemaAgent
+  performer?: SchemaAgent | SchemaAgent[]
+}
+
+export interface LocalBusinessSchema {
+  /** 'LocalBusiness' or a more specific subtype such as 'Restaurant' */
+  '@type': 'LocalBusiness' | (string & {})
+  '@id'?: string
+  name: string
+  address: PostalAddressSchema
+  url?: string
+  image?: string | string[]
+  telephone?: string
+  priceRange?: string
+  geo?: GeoCoordinatesSchema
+  openingHoursSpecification?: OpeningHoursSpecificationSchema[]
+  aggregateRating?: AggregateRatingSchema
+}
+
+export interface RecipeSchema {
+  '@type': 'Recipe'
+  '@id'?: string
+  name: string
+  image: string | string[]
+  description?: string
+  author?: SchemaAgent
+  datePublished?: string
+  /** ISO 8601 durations, e.g. "PT20M" */
+  prepTime?: string
+  cookTime?: string
+  totalTime?: string
+  recipeYield?: string
+  recipeCategory?: string
+  recipeCuisine?: string
+  recipeIngredient?: string[]
+  recipeInstructions?: HowToStepSchema[]
+  nutrition?: { '@type': 'NutritionInformation'; calories?: string }
+  keywords?: string
+  aggregateRating?: AggregateRatingSchema
+  video?: VideoObjectSchema
+}
+
+export interface VideoObjectSchema {
+  '@type': 'VideoObject'
+  '@id'?: string
+  name: string
+  description: string
+  thumbnailUrl: string | string[]
+  uploadDate: string
+  /** ISO 8601 duration, e.g. "PT1M33S" */
+  duration?: string
+  contentUrl?: string
+  embedUrl?: string
+  expires?: string
+}
+
+export interface AudioObjectSchema {
+  '@type': 'AudioObject'
+  contentUrl: string
+  encodingFormat?: string
+  /** ISO 8601 duration */
+  duration?: string
+}
+
+export interface PodcastSeriesSchema {
+  '@type': 'PodcastSeries'
+  '@id'?: string
+  name: string
+  url?: string
+}
+
+export interface PodcastEpisodeSchema {
+  '@type': 'PodcastEpisode'
+  '@id'?: string
+  name: string
+  url?: string
+  description?: string
+  datePublished?: string
+  /** ISO 8601 duration */
+  duration?: string
+  episodeNumber?: number
+  image?: string
+  associatedMedia?: AudioObjectSchema
+  partOfSeries?: PodcastSeriesSchema | SchemaReference
+}
+
+export interface ProfilePageSchema {
+  '@type': 'ProfilePage'
+  '@id'?: string
+  mainEntity: PersonSchema
+  url?: string
+  dateCreated?: string
+  dateModified?: string
+}
+
+export interface SoftwareApplicationSchema {
+  '@type': 'SoftwareApplication' | 'MobileApplication' | 'WebApplication'
+  '@id'?: string
+  name: string
+  /** e.g. "Windows 10, macOS", "ANDROID" */
+  operatingSystem?: string
+  /** e.g. "GameApplication", "BusinessApplication" */
+  applicationCategory?: string
+  offers?: OfferSchema | OfferSchema[]
+  aggregateRating?: AggregateRatingSchema
+  description?: string
+  url?: string
+  image?: string | string[]
+  screenshot?: string | string[]
+  softwareVersion?: string
+  downloadUrl?: string
+}
+
+interface JobPostingBase {
+  '@type': 'JobPosting'
+  '@id'?: string
+  title: string
+  description: string
+  datePosted: string
+  hiringOrganization: OrganizationSchema | SchemaReference
+  validThrough?: string
+  employmentType?: string | string[]
+  baseSalary?: MonetaryAmountSchema
+  identifier?: { '@type': 'PropertyValue'; name: string; value: string }
+}
+
+/** On-site jobs need a `jobLocation`; remote jobs set `jobLocationType` instead */
+export type JobPostingSchema =
+  | (JobPostingBase & { jobLocation: PlaceSchema | PlaceSchema[]; jobLocationType?: 'TELECOMMUTE' })
+  | (JobPostingBase & {
+    jobLocationType: 'TELECOMMUTE'
+    applicantLocationRequirements: { '@type': 'Country' | 'State'; name: string } | Array<{ '@type': 'Country' | 'State'; name: string }>
+    jobLocation?: PlaceSchema | PlaceSchema[]
+  })
+
+export interface ReviewSchema {
+  '@type': 'Review'
+  '@id'?: string
+  itemReviewed: { '@type': string; name: string; [key: string]: unknown } | SchemaReference
+  reviewRating: RatingSchema
+  author: PersonSchema | OrganizationSchema
+  reviewBody?: string
+  datePublished?: string
+}
+
+/** A review nested in the item it reviews, so without `itemReviewed` */
+export type ProductReviewSchema = Omit<ReviewSchema, 'itemReviewed'>
+
+export interface ProductSchema {
+  '@type': 'Product'
+  '@id'?: string
+  name: string
+  description?: string
+  image?: string | string[]
+  sku?: string
+  gtin?: string
+  mpn?: string
+  brand?: { '@type': 'Brand'; name: string }
+  category?: string
+  offers?: OfferSchema | OfferSchema[] | AggregateOfferSchema
+  aggregateRating?: AggregateRatingSchema
+  review?: ProductReviewSchema | ProductReviewSchema[]
+}
+
+interface AggregateRatingBase {
+  '@type': 'AggregateRating'
+  ratingValue: number
+  bestRating?: number
+  worstRating?: number
+  itemReviewed?: { '@type': string; name: string; [key: string]: unknown } | SchemaReference
+}
+
+/** At least one of `ratingCount` or `reviewCount` is required */
+export type AggregateRatingSchema =
+  | (AggregateRatingBase & { ratingCount: number; reviewCount?: number })
+  | (AggregateRatingBase & { reviewCount: number; ratingCount?: number })
+
+/** Any node produced by the builders in this module */
+export type Schema =
+  | ArticleSchema
+  | BreadcrumbListSchema
+  | OrganizationSchema
+  | WebSiteSchema
+  | FAQPageSchema
+  | HowToSchema
+  | EventSchema
+  | LocalBusinessSchema
+  | RecipeSchema
+  | VideoObjectSchema
+  | JobPostingSchema
+  | ReviewSchema
+  | ProductSchema
+  | PodcastEpisodeSchema
+  | ProfilePageSchema
+  | SoftwareApplicationSchema
+  | AggregateRatingSchema
+
+// ---------------------------------------------------------------------------
+// Builders
+// ---------------------------------------------------------------------------
+
+/**
+ * Recursively drop `undefined` fields from objects and arrays.
+ *
+ * @param value - Value to clean.
+ * @returns A copy without `undefined` entries.
+ */
+export function stripUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== undefined).map(item => stripUndefined(item)) as unknown as T
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    Object.keys(value).forEach(key => {
+      const v = (value as Record<string, unknown>)[key]
+      if (v !== undefined) result[key] = stripUndefined(v)
+    })
+    return result as T
+  }
+  return value
+}
+
+function withContext<T extends { '@type': string }>(node: T): WithContext<T> {
+  return stripUndefined({ '@context': SCHEMA_CONTEXT, ...node }) as WithContext<T>
+}
+
+/**
+ * Build an Article, BlogPosting or NewsArticle node.
+ *
+ * @param props - Article properties; `type` defaults to 'Article'.
+ */
+export function articleSchema(
+  props: SchemaInput<ArticleSchema> & { type?: ArticleSchema['@type'] }
+): WithContext<ArticleSchema> {
+  const { type = 'Article', ...rest } = props
+  return withContext<ArticleSchema>({ '@type': type, ...rest })
+}
+
+/**
+ * Build a BreadcrumbList from an ordered trail.
+ * Positions are assigned from 1 in array order.
+ *
+ * @param items - Crumbs from the root to the current page.
+ */
+export function breadcrumbListSchema(items: Array<{ name: string; url?: string }>): WithContext<BreadcrumbListSchema> {
+  return withContext<BreadcrumbListSchema>({
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((crumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: crumb.name,
+      item: crumb.url
+    }))
+  })
+}
+
+/** Build an Organization node */
+export function organizationSchema(props: SchemaInput<OrganizationSchema>): WithContext<OrganizationSchema> {
+  return withContext<OrganizationSchema>({ '@type': 'Organization', ...props })
+}
+
+/**
+ * Build a WebSite node, optionally with a sitelinks search box.
+ *
+ * @param props - WebSite properties. `searchUrlTemplate` must contain
+ * `{search_term_string}`, e.g. "https://example.com/search?q={search_term_string}".
+ */
+export function webSiteSchema(
+  props: SchemaInput<Omit<WebSiteSchema, 'potentialAction'>> & { searchUrlTemplate?: string }
+): WithContext<WebSiteSchema> {
+  const { searchUrlTemplate, ...rest } = props
+  return withContext<WebSiteSchema>({
+    '@type': 'WebSite',
+    ...rest,
+    potentialAction: searchUrlTemplate
+      ? {
+        '@type': 'SearchAction',
+        target: { '@type': 'EntryPoint', urlTemplate: searchUrlTemplate },
+        'query-input': 'required name=search_term_string'
+      }
+      : undefined
+  })
+}
+
+/**
+ * Build an FAQPage from question/answer pairs.
+ *
+ * @param questions - Questions in display order.
+ */
+export function faqPageSchema(questions: Array<{ question: string; answer: string }>): WithContext<FAQPageSchema> {
+  return withContext<FAQPageSchema>({
+    '@type': 'FAQPage',
+    mainEntity: questions.map(q => ({
+      '@type': 'Question',
+      name: q.question,
+      acceptedAnswer: { '@type': 'Answer', text: q.answer }
+    }))
+  })
+}
+
+/**
+ * Build a HowTo node. Steps are given without `@type`.
+ */
+export function howToSchema(
+  props: SchemaInput<Omit<HowToSchema, 'step'>> & { steps: Array<SchemaInput<HowToStepSchema>> }
+): WithContext<HowToSchema> {
+  const { steps, ...rest } = props
+  return withContext<HowToSchema>({
+    '@type': 'HowTo',
+    ...rest,
+    step: steps.map(step => ({ '@type': 'HowToStep', ...step }))
+  })
+}
+
+/** Build an Event node */
+export function eventSchema(props: SchemaInput<EventSchema>): WithContext<EventSchema> {
+  return withContext<EventSchema>({ '@type': 'Event', ...props })
+}
+
+/**
+ * Build a LocalBusiness node.
+ *
+ * @param props - Business properties; `type` selects a subtype such as 'Restaurant'.
+ */
+export function localBusinessSchema(
+  props: SchemaInput<LocalBusinessSchema> & { type?: string }
+): WithContext<LocalBusinessSchema> {
+  const { type = 'LocalBusiness', ...rest } = props
+  return withContext<LocalBusinessSchema>({ '@type': type, ...rest })
+}
+
+/** Build a Recipe node */
+export function recipeSchema(props: SchemaInput<RecipeSchema>): WithContext<RecipeSchema> {
+  return withContext<RecipeSchema>({ '@type': 'Recipe', ...props })
+}
+
+/** Build a VideoObject node */
+export function videoObjectSchema(props: SchemaInput<VideoObjectSchema>): WithContext<VideoObjectSchema> {
+  return withContext<VideoObjectSchema>({ '@type': 'VideoObject', ...props })
+}
+
+/** Build a JobPosting node */
+export function jobPostingSchema(props: SchemaInput<JobPostingSchema>): WithContext<JobPostingSchema> {
+  return withContext({ '@type': 'JobPosting', ...props } as JobPostingSchema)
+}
+
+/** Build a Review node */
+export function reviewSchema(props: SchemaInput<ReviewSchema>): WithContext<ReviewSchema> {
+  return withContext<ReviewSchema>({ '@type': 'Review', ...props })
+}
+
+/** Build an AggregateRating node */
+export function aggregateRatingSchema(props: SchemaInput<AggregateRatingSchema>): WithContext<AggregateRatingSchema> {
+  return withContext({ '@type': 'AggregateRating', ...props } as AggregateRatingSchema)
+}
+
+/** Build a Product node */
+export function productSchema(props: SchemaInput<ProductSchema>): WithContext<ProductSchema> {
+  return withContext<ProductSchema>({ '@type': 'Product', ...props })
+}
+
+/** Build a PodcastEpisode node */
+export function podcastEpisodeSchema(props: SchemaInput<PodcastEpisodeSchema>): WithContext<PodcastEpisodeSchema> {
+  return withContext<PodcastEpisodeSchema>({ '@type': 'PodcastEpisode', ...props })
+}
+
+/** Build a ProfilePage node around the Person it describes */
+export function profilePageSchema(props: SchemaInput<ProfilePageSchema>): WithContext<ProfilePageSchema> {
+  return withContext<ProfilePageSchema>({ '@type': 'ProfilePage', ...props })
+}
+
+/**
+ * Build a SoftwareApplication node.
+ *
+ * @param props - Application properties; `type` selects 'MobileApplication' or 'WebApplication'.
+ */
+export function softwareApplicationSchema(
+  props: SchemaInput<SoftwareApplicationSchema> & { type?: SoftwareApplicationSchema['@type'] }
+): WithContext<SoftwareApplicationSchema> {
+  const { type = 'SoftwareApplication', ...rest } = props
+  return withContext<SoftwareApplicationSchema>({ '@type': type, ...rest })
+}
@@ -0,0 +1,394 @@
+import type { ElementAttributes, HeadTag, SeoConfig, OpenGraph, OpenGraphVideoMedia, TwitterCard } from './types'
+import { escapeHtml, resolveTitle } from './utils'
+import { mergeStructuredData, serializeJsonLd, toJsonLdGraph } from './jsonld'
+import { normalizeConfigUrls, normalizeUrl, urlOptionsFrom } from './url'
+import { applyPagination, paginationLinks } from './pagination'
+import { resolveRobots, serializeRobots } from './robots'
+import { applyLocaleAlternates } from './hreflang'
+import { applyTwitterFallbacks, TWITTER_APP_FIELDS, TWITTER_APP_PLATFORMS } from './twitter'
+import { isRtlLocale } from './i18n'
+import { breadcrumbListSchema } from './schema'
+
+/** Structured properties of og:image/video/audio in the order OGP lists them */
+const MEDIA_PROPERTIES: Array<{ field: keyof OpenGraphVideoMedia; property: string; key: string }> = [
+  { field: 'secureUrl', property: 'secure_url', key: 'secure-url' },
+  { field: 'type', property: 'type', key: 'type' },
+  { field: 'width', property: 'width', key: 'width' },
+  { field: 'height', property: 'height', key: 'height' },
+  { field: 'alt', property: 'alt', key: 'alt' }
+]
+
+/** OGP names of `openGraph.article` fields (`article:` namespace) */
+const ARTICLE_PROPERTIES: Record<string, string> = {
+  publishedTime: 'article:published_time',
+  modifiedTime: 'article:modified_time',
+  expirationTime: 'article:expiration_time',
+  authors: 'article:author',
+  section: 'article:section',
+  tags: 'article:tag'
+}
+
+/** OGP names of `openGraph.book` fields (`book:` namespace) */
+const BOOK_PROPERTIES: Record<string, string> = {
+  authors: 'book:author',
+  isbn: 'book:isbn',
+  releaseDate: 'book:release_date',
+  tags: 'book:tag'
+}
+
+/** OGP names of `openGraph.profile` fields (`profile:` namespace) */
+const PROFILE_PROPERTIES: Record<string, string> = {
+  firstName: 'profile:first_name',
+  lastName: 'profile:last_name',
+  username: 'profile:username',
+  gender: 'profile:gender'
+}
+
+/**
+ * OGP names of `openGraph.video` fields. They use the `video:` namespace,
+ * which keeps them apart from the og:video:* properties of `videos`.
+ */
+const VIDEO_PROPERTIES: Record<string, string> = {
+  actors: 'video:actor',
+  directors: 'video:director',
+  writers: 'video:writer',
+  duration: 'video:duration',
+  releaseDate: 'video:release_date',
+  tags: 'video:tag',
+  series: 'video:series'
+}
+
+/** Property names per nested OG object, keyed by its `openGraph` field */
+const OBJECT_PROPERTIES: Record<string, Record<string, string>> = {
+  article: ARTICLE_PROPERTIES,
+  book: BOOK_PROPERTIES,
+  profile: PROFILE_PROPERTIES,
+  video: VIDEO_PROPERTIES
+}
+
+/**
+ * Turn a config into the ordered list of tags `SeoTags` writes to <head>.
+ *
+ * @remarks
+ * This is the single source of the tag rules (robots precedence, site
+ * verification names, OG nested objects, Twitter fallbacks, ...). The DOM
+ * writer and `renderHeadToString` both consume its output, and it needs no
+ * DOM, so pages' metadata can be snapshot-tested directly.
+ *
+ * Every tag has a stable `key`. Tags that may repeat (OG media, OG arrays,
+ * structured data, extras) also carry a `data-metafy` attribute equal to
+ * their key, so only library-managed copies are ever replaced.
+ *
+ * @example
+ * ```ts
+ * expect(buildTags(blogPostPreset(post))).toMatchSnapshot()
+ * ```
+ *
+ * @param config - Fully merged SEO configuration.
+ * @returns Tag descriptors in document order.
+ */
+export function buildTags(config: SeoConfig): HeadTag[] {
+  config = applyTwitterFallbacks(applyLocaleAlternates(normalizeConfigUrls(applyPagination(config))))
+  const tags: HeadTag[] = []
+
+  /** Add a <meta> tag identified by `name` or `property` */
+  const addMeta = (uniqueKey: 'name' | 'property', uniqueValue: string, content: string) => {
+    if (!content) return
+    tags.push({ tag: 'meta', key: `${uniqueKey}:${uniqueValue}`, attributes: { [uniqueKey]: uniqueValue, content } })
+  }
+
+  /** Add a <link> tag identified by `rel` */
+  const addLink = (rel: string, href: string, extraAttrs: Record<string, string> = {}) => {
+    if (!href) return
+    tags.push({ tag: 'link', key: `rel:${rel}`, attributes: { rel, href, ...extraAttrs } })
+  }
+
+  /** Add one of several OG meta tags sharing the same property */
+  const addManagedPropertyMeta = (dataKey: string, property: string, content: string) => {
+    if (!content) return
+    tags.push({ tag: 'meta', key: dataKey, attributes: { property, content, 'data-metafy': dataKey } })
+  }
+
+  /**
+   * Add an og:image/video/audio group per item: the URL, then its structured
+   * properties. Images and audio are structurally subsets of video media.
+   */
+  const addMedia = (kind: 'image' | 'video' | 'audio', items: OpenGraphVideoMedia[]) => {
+    items.forEach((item, index) => {
+      addManagedPropertyMeta(`og-${kind}-${index}`, `og:${kind}`, item.url)
+      MEDIA_PROPERTIES.forEach(({ field, property, key }) => {
+        const value = item[field]
+        if (value) addManagedPropertyMeta(`og-${kind}-${index}-${key}`, `og:${kind}:${property}`, String(value))
+      })
+    })
+  }
+
+  // 1) Title tag
+  const titleText = resolveTitle(config)
+  if (titleText) tags.push({ tag: 'title', key: 'title', attributes: {}, content: titleText })
+
+  // 2) Core meta & link
+  if (config.description) addMeta('name', 'description', config.description)
+
+  // Robots: string, then typed directives, then noindex/nofollow shortcuts
+  const robotsContent = resolveRobots(config)
+  if (robotsContent) addMeta('name', 'robots', robotsContent)
+
+  // Crawler-specific robots tags, sorted for stable output
+  if (config.botDirectives) {
+    Object.keys(config.botDirectives).sort().forEach(bot => {
+      addMeta('name', bot, serializeRobots(config.botDirectives![bot]))
+    })
+  }
+
+  if (config.viewport) addMeta('name', 'viewport', config.viewport)
+  if (config.themeColor) addMeta('name', 'theme-color', config.themeColor)
+  if (config.author) addMeta('name', 'author', config.author)
+  if (config.publisher) addMeta('name', 'publisher', config.publisher)
+  if (config.language) addMeta('name', 'language', config.language)
+
+  if (config.canonical) addLink('canonical', config.canonical)
+
+  // Pagination
+  const { prev, next } = paginationLinks(config)
+  if (prev) addLink('prev', normalizeUrl(prev, urlOptionsFrom(config)))
+  if (next) addLink('next', normalizeUrl(next, urlOptionsFrom(config)))
+
+  // Site Verification
+  if (config.siteVerification) {
+    if (config.siteVerification.google) addMeta('name', 'google-site-verification', config.siteVerification.google)
+    if (config.siteVerification.bing) addMeta('name', 'msvalidate.01', config.siteVerification.bing)
+    if (config.siteVerification.yandex) addMeta('name', 'yandex-verification', config.siteVerification.yandex)
+    if (config.siteVerification.pinterest) addMeta('name', 'p:domain_verify', config.siteVerification.pinterest)
+  }
+
+  // Facebook App ID
+  if (config.facebook?.appId) {
+    addMeta('property', 'fb:app_id', config.facebook.appId)
+  }
+
+  // 3) Language Alternates (hreflang)
+  if (config.languageAlternates) {
+    Object.entries(config.languageAlternates).forEach(([lang, href]) => {
+      tags.push({ tag: 'link', key: `hreflang:${lang}`, attributes: { rel: 'alternate', hreflang: lang, href } })
+    })
+  }
+
+  // 4) Icons
+  if (config.icons) {
+    if (config.icons.icon) addLink('icon', config.icons.icon)
+    if (config.icons.apple) addLink('apple-touch-icon', config.icons.apple)
+    if (config.icons.manifest) addLink('manifest', config.icons.manifest)
+    if (config.icons.mask) {
+      addLink('mask-icon', config.icons.mask.url, {
+        color: config.icons.mask.color || '#000000'
+      })
+    }
+  }
+
+  // 5) OpenGraph
+  if (config.openGraph) {
+    const og = config.openGraph as OpenGraph
+      ; (Object.keys(og) as (keyof OpenGraph)[]).forEach(key => {
+        const val = og[key]
+        if (!val) return
+
+        if (key === 'images') {
+          addMedia('image', og.images!)
+        } else if (key === 'videos') {
+          addMedia('video', og.videos!)
+        } else if (key === 'audio') {
+          addMedia('audio', og.audio!)
+        } else if (key === 'localeAlternates') {
+          og.localeAlternates!.forEach((locale, index) => {
+            addManagedPropertyMeta(`og-locale-alternate-${index}`, 'og:locale:alternate', locale)
+          })
+        } else if (typeof val === 'object') {
+          // Handle nested OG objects (article, book, profile, video)
+          const valObj = val as Record<string, unknown>
+          const names = OBJECT_PROPERTIES[key] || {}
+          const propertyFor = (nestedKey: string) => names[nestedKey] || `${key}:${nestedKey}`
+            ; (Object.keys(valObj)).forEach(nestedKey => {
+              const nestedVal = valObj[nestedKey]
+              if (!nestedVal) return
+
+              if (Array.isArray(nestedVal)) {
+                const arrayTagPrefix = `og-array-${String(key)}-${nestedKey}`
+
+                  ; (nestedVal as unknown[]).forEach((item: unknown, itemIndex: number) => {
+                    if (typeof item === 'object' && item !== null) {
+                      const itemObj = item as Record<string, string>
+                      if (key === 'video' && nestedKey === 'actors') {
+                        addManagedPropertyMeta(`${arrayTagPrefix}-${itemIndex}-actor`, propertyFor('actors'), itemObj.actor)
+                        if (itemObj.role) {
+                          addManagedPropertyMeta(`${arrayTagPrefix}-${itemIndex}-role`, `${propertyFor('actors')}:role`, itemObj.role)
+                        }
+                      }
+                    } else {
+                      addManagedPropertyMeta(
+                        `${arrayTagPrefix}-${itemIndex}`,
+                        propertyFor(nestedKey),
+                        String(item)
+                      )
+                    }
+                  })
+              } else {
+                addMeta('property', propertyFor(nestedKey), String(nestedVal))
+              }
+            })
+        } else {
+          addMeta('property', `og:${key}`, String(val))
+        }
+      })
+  }
+
+  // 6) Twitter
+  if (config.twitter) {
+    const tw = config.twitter as TwitterCard
+      ; (Object.keys(tw) as (keyof TwitterCard)[]).forEach(key => {
+        const val = tw[key]
+        if (val) {
+          if (key === 'imageAlt') {
+            addMeta('name', 'twitter:image:alt', String(val))
+          } else if (key === 'player') {
+            const player = tw.player!
+            addMeta('name', 'twitter:player', player.url)
+            if (player.width) addMeta('name', 'twitter:player:width', String(player.width))
+            if (player.height) addMeta('name', 'twitter:player:height', String(player.height))
+            if (player.stream) addMeta('name', 'twitter:player:stream', player.stream)
+          } else if (key === 'app') {
+            const app = tw.app!
+            TWITTER_APP_PLATFORMS.forEach(platform => {
+              TWITTER_APP_FIELDS.forEach(field => {
+                const value = app[platform]?.[field]
+                if (value) addMeta('name', `twitter:app:${field}:${platform}`, value)
+              })
+            })
+            if (app.country) addMeta('name', 'twitter:app:country', app.country)
+          } else if (key === 'labels') {
+            tw.labels!.forEach(({ label, data }, index) => {
+              addMeta('name', `twitter:label${index + 1}`, label)
+              addMeta('name', `twitter:data${index + 1}`, data)
+            })
+          } else {
+            addMeta('name', `twitter:${key}`, String(val))
+          }
+        }
+      })
+  }
+
+  // 7) Structured Data (breadcrumbs become a BreadcrumbList node)
+  const breadcrumbList = config.breadcrumbs?.length ? [breadcrumbListSchema(config.breadcrumbs)] : undefined
+  const structuredData = mergeStructuredData([config.structuredData, breadcrumbList])
+  if (structuredData.length) {
+    const nodes = config.structuredDataGraph
+      ? [toJsonLdGraph(structuredData)]
+      : structuredData
+    nodes.forEach((obj, i) => {
+      tags.push({
+        tag: 'script',
+        key: `structured-${i}`,
+        attributes: { type: 'application/ld+json', 'data-metafy': `structured-${i}` },
+        content: serializeJsonLd(obj)
+      })
+    })
+  }
+
+  // 8) Extras
+  config.extraMeta?.forEach((x, i) => {
+    const attributes: Record<string, string> = {}
+    if (x.name) attributes.name = x.name
+    else if (x.property) attributes.property = x.property
+    attributes.content = x.content
+    attributes['data-metafy'] = `extra-meta-${i}`
+    tags.push({ tag: 'meta', key: `extra-meta-${i}`, attributes })
+  })
+
+  config.extraLinks?.forEach((x, i) => {
+    tags.push({ tag: 'link', key: `extra-link-${i}`, attributes: { ...x, 'data-metafy': `extra-link-${i}` } })
+  })
+
+  return tags
+}
+
+/** Drop unset values so they are not written as "undefined" */
+function definedAttributes(attributes: ElementAttributes): Record<string, string> {
+  const result: Record<string, string> = {}
+  Object.keys(attributes).forEach(name => {
+    const value = attributes[name]
+    if (value !== undefined) result[name] = value
+  })
+  return result
+}
+
+/**
+ * Work out the attributes `SeoTags` writes to `<html>`.
+ *
+ * @remarks
+ * `language` provides `lang`, plus `dir="rtl"` for right-to-left languages;
+ * `htmlAttributes` is applied on top and wins.
+ *
+ * @param config - Fully merged SEO configuration.
+ * @returns Attribute map, empty when nothing applies.
+ */
+export function buildHtmlAttributes(config: SeoConfig): Record<string, string> {
+  const derived: ElementAttributes = {}
+  if (config.language) {
+    derived.lang = config.language
+    if (isRtlLocale(config.language)) derived.dir = 'rtl'
+  }
+  return definedAttributes({ ...derived, ...config.htmlAttributes })
+}
+
+/**
+ * Work out the attributes `SeoTags` writes to `<body>`.
+ *
+ * @param config - Fully merged SEO configuration.
+ * @returns Attribute map, empty when nothing applies.
+ */
+export function buildBodyAttributes(config: SeoConfig): Record<string, string> {
+  return definedAttributes({ ...config.bodyAttributes })
+}
+
+/**
+ * Render a config to tag descriptors for build-time prerendering.
+ * Same as `buildTags`; named to pair with `renderHeadToString`.
+ *
+ * @param config - Fully merged SEO configuration.
+ * @returns Tag descriptors in document order.
+ */
+export function renderHeadToTags(config: SeoConfig): HeadTag[] {
+  return buildTags(config)
+}
+
+/**
+ * Render a config to an HTML string for build-time prerendering.
+ *
+ * @remarks
+ * Uses the same rules as `SeoTags`, so the output matches what the client
+ * would write. Every attribute and the title text go through `escapeHtml`;
+ * JSON-LD goes through `serializeJsonLd`. The output only depends on the
+ * config, so repeated runs are byte-identical. Managed tags keep their
+ * `data-metafy` marker, which lets `SeoTags` replace them after the app boots.
+ *
+ * @example
+ * ```ts
+ * const html = template.replace('</head>', `${renderHeadToString(config)}\n</head>`)
+ * ```
+ *
+ * @param config - Fully merged SEO configuration.
+ * @returns One tag per line, without a trailing newline.
+ */
+export function renderHeadToString(config: SeoConfig): string {
+  return buildTags(config)
+    .map(t => {
+      const attrs = Object.keys(t.attributes)
+        .map(name => ` ${name}="${escapeHtml(t.attributes[name])}"`)
+        .join('')
+
+      if (t.tag === 'title') return `<title>${escapeHtml(t.content)}</title>`
+      if (t.tag === 'script') return `<script${attrs}>${t.content}</script>`
+      return `<${t.tag}${attrs}>`
+    })
+    .join('\n')
+}
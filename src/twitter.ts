@@ -0,0 +1,38 @@
+import type { SeoConfig, TwitterApp, TwitterAppStore } from './types'
+
+/** App card platforms in the order X documents them */
+export const TWITTER_APP_PLATFORMS: Array<Exclude<keyof TwitterApp, 'country'>> = ['iphone', 'ipad', 'googleplay']
+
+/** Store listing fields of an app card, emitted as twitter:app:<field>:<platform> */
+export const TWITTER_APP_FIELDS: Array<keyof TwitterAppStore> = ['name', 'id', 'url']
+
+/**
+ * Fill unset `twitter` title, description and image from Open Graph.
+ *
+ * @remarks
+ * Only runs when the config has a `twitter` object, so pages without a card
+ * get no twitter:* tags. The image falls back to the first `openGraph.images`
+ * entry and brings its alt text along; an explicit `twitter.image` never
+ * picks up another image's alt.
+ *
+ * @param config - Config with normalized URLs.
+ * @returns A copy of `config` with the twitter fields filled in.
+ */
+export function applyTwitterFallbacks(config: SeoConfig): SeoConfig {
+  const tw = config.twitter
+  if (!tw) return config
+
+  const og = config.openGraph
+  const ogImage = tw.image ? undefined : og?.images?.[0]
+
+  return {
+    ...config,
+    twitter: {
+      ...tw,
+      title: tw.title || og?.title,
+      description: tw.description || og?.description,
+      image: tw.image || ogImage?.url,
+      imageAlt: tw.imageAlt || ogImage?.alt
+    }
+  }
+}
@@ -5,20 +5,155 @@ export interface StructuredData {
 
 export interface SeoProviderDefaults extends Partial<SeoConfig> {}
 
+/** A single mounted `SeoTags` instance as seen by the head registry */
+export interface HeadEntry {
+  /** Props passed to the instance, before provider defaults are applied */
+  config: SeoConfig
+  /**
+   * Merge function of the provider the instance is rendered under. Unset
+   * outside any provider, in which case the last provider-scoped entry's applies.
+   */
+  mergeConfig?: (config: SeoConfig) => SeoConfig
+  /** Array merge strategies of that provider, also used between layers */
+  mergeStrategies?: MergeStrategies
+}
+
+/**
+ * How an array from a higher-priority layer combines with the one below:
+ * `replace` (the default), `append`, `prepend`, or `uniqueBy(key)` to
+ * concatenate while letting the higher layer win per key.
+ */
+export type MergeStrategy = 'replace' | 'append' | 'prepend' | { uniqueBy: string | ((item: any) => unknown) }
+
+/** Merge strategy per dotted field path, e.g. `{ 'openGraph.images': 'append' }` */
+export type MergeStrategies = Record<string, MergeStrategy>
+
+/**
+ * Tracks every mounted `SeoTags` instance and writes the winning
+ * config to the document head.
+ */
+export interface HeadRegistry {
+  /**
+   * Allocate an ordering key. Called on an instance's first render, so a
+   * layout rendered together with its page precedes it.
+   */
+  nextOrder: () => number
+  /** Add or replace the entry for an instance and re-apply the head */
+  set: (order: number, entry: HeadEntry) => void
+  /** Drop an instance and re-apply the head from the remaining entries */
+  remove: (order: number) => void
+  /** Merge all entries in order (last wins), or `null` when nothing is mounted */
+  resolve: () => SeoConfig | null
+}
+
+/** Options for deriving the canonical URL from `window.location` */
+export interface AutoCanonicalOptions {
+  /**
+   * Query parameters kept in the derived URL; everything else is dropped.
+   * A trailing `*` matches by prefix. Defaults to none.
+   */
+  allowParams?: string[]
+}
+
+/**
+ * Route table mapping path patterns ("/blog/:slug") to a config or to a
+ * function of the matched params returning one.
+ */
+export type SeoRoutes = Record<string, SeoConfig | ((params: Record<string, string>) => SeoConfig)>
+
+/** Looks up a message by key, e.g. a wrapper around i18next's `t` */
+export type SeoTranslate = (key: string, values?: Record<string, string | number>) => string | undefined
+
+/** A message to be resolved through `SeoTranslate` */
+export interface SeoMessage {
+  key: string
+  values?: Record<string, string | number>
+  /** Used when there is no translate function or it returns nothing */
+  defaultMessage?: string
+}
+
+/** Literal text or a message key, as accepted by preset options */
+export type SeoText = string | SeoMessage
+
+/** Props accepted by `SeoProvider` */
+export interface SeoProviderProps {
+  /** Site-wide defaults merged under every `SeoTags` */
+  defaults?: SeoProviderDefaults
+  /**
+   * Derive `canonical` and `openGraph.url` from the current location and
+   * keep them updated on navigation. Explicit values on `SeoTags` win.
+   */
+  autoCanonical?: boolean | AutoCanonicalOptions
+  /**
+   * Metadata per route, resolved against `window.location.pathname` and
+   * re-resolved on navigation. The first matching pattern wins; any
+   * `SeoTags` below the provider overrides it.
+   */
+  routes?: SeoRoutes
+  /** Crumb contributed by this provider, placed before those of its children */
+  breadcrumb?: Breadcrumb
+  /**
+   * Active locale as a BCP-47 tag, e.g. "de-AT". Selects `locales[locale]`
+   * and defaults `language` (and so `<html lang>`) and `og:locale`.
+   */
+  locale?: string
+  /** Per-locale defaults layered over `defaults`, keyed by locale */
+  locales?: Record<string, SeoProviderDefaults>
+  /** Resolves message keys passed to presets; exposed through `useSeo()` */
+  translate?: SeoTranslate
+  /**
+   * How arrays combine between these defaults and the page, and between
+   * nested `SeoTags`. Arrays are replaced unless listed here. Nested
+   * providers inherit their parent's strategies and may override them.
+   */
+  mergeStrategies?: MergeStrategies
+}
+
 /** Context shape */
 export interface SeoContextValue {
   defaults?: SeoProviderDefaults
   mergeConfig: (config: SeoConfig) => SeoConfig
+  /** Head registry of the document, shared by every `SeoTags` and manager */
+  registry?: HeadRegistry
+  /** Active locale of the nearest provider */
+  locale?: string
+  /** Translate function of the nearest provider that has one */
+  translate?: SeoTranslate
+  /** Merge strategies of the nearest provider, including inherited ones */
+  mergeStrategies?: MergeStrategies
 }
 
 export interface OpenGraphImage {
   url: string
+  /** HTTPS URL when `url` is plain HTTP */
+  secureUrl?: string
   alt?: string
   width?: number
   height?: number
   type?: string
 }
 
+/** A video file or player, emitted as og:video with its structured properties */
+export interface OpenGraphVideoMedia {
+  url: string
+  /** HTTPS URL when `url` is plain HTTP */
+  secureUrl?: string
+  /** MIME type, e.g. "video/mp4" or "text/html" for an embeddable player */
+  type?: string
+  width?: number
+  height?: number
+  alt?: string
+}
+
+/** An audio file, emitted as og:audio with its structured properties */
+export interface OpenGraphAudio {
+  url: string
+  /** HTTPS URL when `url` is plain HTTP */
+  secureUrl?: string
+  /** MIME type, e.g. "audio/mpeg" */
+  type?: string
+}
+
 export interface OpenGraphArticle {
   publishedTime?: string
   modifiedTime?: string
@@ -64,25 +199,82 @@ export interface OpenGraph {
   type?: string
   siteName?: string
   images?: OpenGraphImage[]
+  /** e.g. "en_US". Derived from `languageAlternates` when the page's locale is known. */
   locale?: string
+  /** Other locales the page is available in, emitted as og:locale:alternate */
+  localeAlternates?: string[]
   /** Open Graph Article Object */
   article?: OpenGraphArticle
   /** Open Graph Book Object */
   book?: OpenGraphBook
   /** Open Graph Profile Object */
   profile?: OpenGraphProfile
-  /** Open Graph Video Object */
+  /**
+   * Metadata for video.* object types (actors, duration, ...), emitted in
+   * the `video:` namespace. For the video file itself use `videos`.
+   */
   video?: OpenGraphVideo
+  /** Video files or players, each emitted as an og:video group */
+  videos?: OpenGraphVideoMedia[]
+  /** Audio files, each emitted as an og:audio group */
+  audio?: OpenGraphAudio[]
+}
+
+/** Embedded player of a `player` card */
+export interface TwitterPlayer {
+  /** HTTPS URL of the iframe player */
+  url: string
+  /** Width of the iframe in pixels */
+  width?: number
+  /** Height of the iframe in pixels */
+  height?: number
+  /** URL of the raw video or audio stream */
+  stream?: string
+}
+
+/** Store listing of an app on one platform */
+export interface TwitterAppStore {
+  /** App name */
+  name?: string
+  /** App Store numeric ID, or Google Play package name */
+  id?: string
+  /** Deep link that opens the app, e.g. "acme://home" */
+  url?: string
+}
+
+/** Store listings of an `app` card */
+export interface TwitterApp {
+  iphone?: TwitterAppStore
+  ipad?: TwitterAppStore
+  googleplay?: TwitterAppStore
+  /** Two-letter App Store country code, when the app is not in the US store */
+  country?: string
+}
+
+/** Extra label/value pair shown on the card, e.g. "Reading time" / "5 min" */
+export interface TwitterLabel {
+  label: string
+  data: string
 }
 
 export interface TwitterCard {
   card?: 'summary' | 'summary_large_image' | 'app' | 'player'
   site?: string
   creator?: string
+  /** Defaults to `openGraph.title` */
   title?: string
+  /** Defaults to `openGraph.description` */
   description?: string
+  /** Defaults to the first `openGraph.images` entry */
   image?: string
-  imageAlt?: string // Add image alt for Twitter card
+  /** Defaults to the alt text of the image `image` falls back to */
+  imageAlt?: string
+  /** Required for `player` cards */
+  player?: TwitterPlayer
+  /** Required for `app` cards */
+  app?: TwitterApp
+  /** Emitted as twitter:label1/data1, ...; X shows the first two */
+  labels?: TwitterLabel[]
 }
 
 export interface IconsConfig {
@@ -107,6 +299,71 @@ export interface FacebookConfig {
   appId?: string
 }
 
+/** Values available to a function `titleTemplate` */
+export interface TitleTemplateContext {
+  /** `openGraph.siteName`, if set */
+  siteName?: string
+  /** `titleSeparator`, defaulting to "|" */
+  separator: string
+  /** The full merged config */
+  config: SeoConfig
+}
+
+/** A title template string or a function building the final title */
+export type TitleTemplate = string | ((title: string, context: TitleTemplateContext) => string)
+
+/** One step in a breadcrumb trail */
+export interface Breadcrumb {
+  name: string
+  /** Page URL; resolved against `baseUrl` like other page URLs */
+  url: string
+}
+
+/**
+ * Typed robots directives. Unset fields are left out of the tag, so
+ * provider defaults and pages merge field by field.
+ */
+export interface RobotsDirectives {
+  /** `false` emits "noindex", `true` emits "index" */
+  index?: boolean
+  /** `false` emits "nofollow", `true` emits "follow" */
+  follow?: boolean
+  noarchive?: boolean
+  nosnippet?: boolean
+  noimageindex?: boolean
+  notranslate?: boolean
+  /** Max text snippet length; -1 for no limit, 0 for none */
+  maxSnippet?: number
+  maxImagePreview?: 'none' | 'standard' | 'large'
+  /** Max video preview seconds; -1 for no limit */
+  maxVideoPreview?: number
+  /** Date after which the page should drop out of results (ISO 8601 or RFC 850) */
+  unavailableAfter?: string
+}
+
+/** Attributes written to `<html>` or `<body>` */
+export interface ElementAttributes {
+  lang?: string
+  dir?: 'ltr' | 'rtl' | 'auto'
+  class?: string
+  [name: string]: string | undefined
+}
+
+/** Position within a paginated listing */
+export interface Pagination {
+  /** Current page, starting at 1 */
+  current: number
+  /** Total number of pages */
+  total: number
+  /** URL of a given page, e.g. `page => '/blog?page=' + page` */
+  urlFor: (page: number) => string
+  /** Pages after this one get `noindex,follow`. Unset means every page is indexable. */
+  noindexAfter?: number
+}
+
+/** How page URLs are normalized with respect to a trailing "/" */
+export type TrailingSlash = 'always' | 'never' | 'preserve'
+
 export interface SeoConfig {
   /**
    * Page title.
@@ -115,33 +372,66 @@ export interface SeoConfig {
   title?: string
   /**
    * Template for the title (e.g., "%s | MyBrand").
-   * The '%s' placeholder will be replaced by the `title` prop.
+   * Placeholders: '%s' or '%title%' (the `title` prop), '%siteName%'
+   * (`openGraph.siteName`) and '%sep%' (`titleSeparator`). When there is no
+   * site name, the separator or punctuation next to '%siteName%' is dropped.
+   * Can also be a function `(title, context) => string`.
    */
-  titleTemplate?: string
+  titleTemplate?: TitleTemplate
+  /** Title used as-is when no `title` is set */
+  defaultTitle?: string
+  /** Value of the '%sep%' placeholder. Defaults to "|". */
+  titleSeparator?: string
+  /** Render `title` without applying `titleTemplate`, e.g. on the homepage */
+  skipTitleTemplate?: boolean
 
   description?: string
   canonical?: string
   /**
-   * Generates a robots meta tag. If `noindex` or `nofollow` are set, this will be overridden.
-   * e.g. "index,follow" or "noindex,nofollow".
+   * Generates a robots meta tag, e.g. "index,follow" or "noindex,nofollow".
+   * Parsed into directives so `robotsDirectives`, `noindex` and `nofollow`
+   * can override individual parts of it.
    */
   robots?: string
-  /** Shortcut for `robots: 'noindex'`. Overrides `robots` if both are set. */
+  /** Shortcut for `robotsDirectives: { index: false }`. Overrides both if set. */
   noindex?: boolean
-  /** Shortcut for `robots: 'nofollow'`. Overrides `robots` if both are set. */
+  /** Shortcut for `robotsDirectives: { follow: false }`. Overrides both if set. */
   nofollow?: boolean
+  /**
+   * Typed directives for meta[name="robots"], layered over `robots`.
+   * Serialized in a fixed order, e.g. "noindex,follow,max-snippet:-1".
+   */
+  robotsDirectives?: RobotsDirectives
+  /**
+   * Directives for individual crawlers, each emitted as its own meta tag,
+   * e.g. `{ googlebot: { maxImagePreview: 'large' } }` → meta[name="googlebot"].
+   */
+  botDirectives?: Record<string, RobotsDirectives>
   viewport?: string
   themeColor?: string
   author?: string
   publisher?: string
+  /** Page language, e.g. "en". Also written to `<html lang>`, with `dir="rtl"` for RTL languages. */
   language?: string
+  /**
+   * Attributes for `<html>`, e.g. `{ class: 'dark', 'data-theme': 'dark' }`.
+   * Merged across layers like other objects; the page's original values are
+   * restored when no layer sets them any more. `lang` and `dir` override the
+   * values derived from `language`.
+   */
+  htmlAttributes?: ElementAttributes
+  /** Attributes for `<body>`, handled like `htmlAttributes` */
+  bodyAttributes?: ElementAttributes
 
   openGraph?: OpenGraph
   twitter?: TwitterCard
 
   /**
-   * Map of language codes to URLs for hreflang tags.
-   * e.g. { 'en-US': '/en', 'fr-FR': '/fr' }
+   * Map of language codes to URLs for hreflang tags, including the page
+   * itself and usually "x-default".
+   * e.g. { 'en-US': '/en', 'fr-FR': '/fr', 'x-default': '/en' }
+   * Also fills og:locale and og:locale:alternate when the page's own entry
+   * can be found via `language` or `canonical`.
    */
   languageAlternates?: Record<string, string>
 
@@ -154,7 +444,134 @@ export interface SeoConfig {
   /** Facebook-specific configurations */
   facebook?: FacebookConfig
 
+  /**
+   * Origin used to resolve relative URLs, e.g. "https://example.com".
+   * Resolution follows the URL standard, so root-relative paths such as
+   * "/posts" ignore any path in `baseUrl`; include an app's base path in the
+   * page URLs themselves. Usually set once in `SeoProvider` defaults.
+   */
+  baseUrl?: string
+  /**
+   * Trailing slash policy for page URLs (canonical, og:url, hreflang).
+   * Asset URLs such as images are never changed. Defaults to 'preserve'.
+   */
+  trailingSlash?: TrailingSlash
+  /**
+   * Query parameters removed from page URLs.
+   * A trailing `*` matches by prefix, e.g. ['utm_*', 'fbclid'].
+   */
+  stripQueryParams?: string[]
+
   extraMeta?: Array<{ name?: string; property?: string; content: string }>
   extraLinks?: Array<{ rel: string; href: string; [key: string]: string }>
+  /**
+   * Listing pagination. Emits rel="prev"/"next" links and makes
+   * `canonical` and `openGraph.url` point at the current page, overriding
+   * any other value so paginated pages never canonicalize to page 1.
+   */
+  pagination?: Pagination
+
+  /**
+   * Full breadcrumb trail, emitted as a BreadcrumbList JSON-LD block.
+   * Overrides the trail collected from `breadcrumb` on each layer.
+   */
+  breadcrumbs?: Breadcrumb[]
+  /**
+   * This layer's own crumb. Crumbs from the provider and every mounted
+   * `SeoTags` are joined in tree order into `breadcrumbs` automatically.
+   */
+  breadcrumb?: Breadcrumb
+
+  /**
+   * JSON-LD objects. Unlike other arrays these are combined across provider
+   * defaults and nested `SeoTags`, with nodes sharing an `@id` merged.
+   */
   structuredData?: StructuredData[]
+  /** Emit all structured data as a single script with an `@graph` array */
+  structuredDataGraph?: boolean
+
+  /**
+   * Provider defaults this page should not inherit: `true` for all of them,
+   * or dotted paths such as `['twitter.site', 'extraMeta']`.
+   */
+  omitDefaults?: boolean | string[]
+}
+
+/**
+ * Metadata that becomes available later: a promise, or a function starting
+ * the request. Functions receive an `AbortSignal` that fires when the result
+ * is no longer wanted.
+ */
+export type AsyncSeoSource = Promise<SeoConfig> | ((signal: AbortSignal) => Promise<SeoConfig>)
+
+/** Options for `useAsyncSeoTags` and props of `AsyncSeoTags` besides `load` */
+export interface AsyncSeoOptions {
+  /** Config applied while the source is pending or after it failed */
+  fallback?: SeoConfig
+  /**
+   * Values the loader function depends on (e.g. a product id). The loader
+   * re-runs when they change. Ignored when `load` is a promise, which
+   * re-runs when its identity changes.
+   */
+  deps?: unknown[]
+  /** Called when the source rejects */
+  onError?: (error: unknown) => void
+}
+
+interface HeadTagBase {
+  /**
+   * Stable identity of the tag, e.g. "name:description", "rel:canonical"
+   * or "og-image-0". The DOM writer diffs by this key.
+   */
+  key: string
+  attributes: Record<string, string>
+}
+
+export interface TitleHeadTag extends HeadTagBase {
+  tag: 'title'
+  content: string
+}
+
+export interface MetaHeadTag extends HeadTagBase {
+  tag: 'meta'
+}
+
+export interface LinkHeadTag extends HeadTagBase {
+  tag: 'link'
+}
+
+export interface ScriptHeadTag extends HeadTagBase {
+  tag: 'script'
+  content: string
+}
+
+/** Description of a single tag in <head>, independent of the DOM */
+export type HeadTag = TitleHeadTag | MetaHeadTag | LinkHeadTag | ScriptHeadTag
+
+/** How serious a validation issue is */
+export type SeoIssueSeverity = 'error' | 'warning'
+
+/** Identifier of a rule checked by `validateSeoConfig` */
+export type SeoIssueCode =
+  | 'title-too-long'
+  | 'description-too-long'
+  | 'canonical-missing'
+  | 'relative-url'
+  | 'og-image-dimensions-missing'
+  | 'twitter-image-missing'
+  | 'twitter-image-alt-missing'
+  | 'twitter-player-missing'
+  | 'twitter-app-missing'
+  | 'robots-conflict'
+  | 'hreflang-x-default-missing'
+  | 'hreflang-invalid'
+  | 'hreflang-self-missing'
+
+/** A single problem reported by `validateSeoConfig` */
+export interface SeoIssue {
+  code: SeoIssueCode
+  severity: SeoIssueSeverity
+  /** Dotted path of the offending field, e.g. "openGraph.images[0].url" */
+  path: string
+  message: string
 }
@@ -0,0 +1,165 @@
+import type { SeoConfig, TrailingSlash } from './types'
+import { isAbsoluteUrl } from './utils'
+
+/**
+ * Options for normalizing a single URL.
+ */
+export interface UrlOptions {
+  /** Base used to resolve relative URLs */
+  baseUrl?: string
+  /** Trailing slash policy, applied to page URLs only */
+  trailingSlash?: TrailingSlash
+  /** Query parameter names to remove; a trailing `*` matches by prefix */
+  stripQueryParams?: string[]
+}
+
+/**
+ * Check a query parameter name against a list of patterns.
+ * A pattern ending in `*` matches any name with that prefix.
+ */
+export function matchesParam(name: string, patterns: string[]): boolean {
+  return patterns.some(pattern =>
+    pattern.charAt(pattern.length - 1) === '*'
+      ? name.indexOf(pattern.slice(0, -1)) === 0
+      : name === pattern
+  )
+}
+
+/**
+ * Build a canonical URL from the current location.
+ *
+ * @remarks
+ * Only query parameters listed in `allowParams` are kept; the hash is
+ * always dropped. With `relative` set, the path is returned without origin
+ * so that `baseUrl` can supply it during normalization.
+ *
+ * @param location - Usually `window.location`.
+ * @param allowParams - Query parameter names to keep; a trailing `*` matches by prefix.
+ * @param relative - Return a path instead of an absolute URL.
+ * @returns The derived canonical URL.
+ */
+export function canonicalFromLocation(
+  location: Pick<Location, 'origin' | 'pathname' | 'search'>,
+  allowParams: string[] = [],
+  relative = false
+): string {
+  const params = new URLSearchParams(location.search)
+  const kept: string[] = []
+  params.forEach((value, name) => {
+    if (matchesParam(name, allowParams)) {
+      kept.push(`${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    }
+  })
+
+  const path = location.pathname + (kept.length ? `?${kept.join('&')}` : '')
+  return relative ? path : location.origin + path
+}
+
+/**
+ * Resolve a URL against `baseUrl` and apply the page URL rules.
+ *
+ * @remarks
+ * Relative URLs are returned unchanged when no `baseUrl` is given.
+ * Set `page` to false for asset URLs (images) so that only resolution
+ * is applied and the path and query string are left alone.
+ *
+ * @param url - URL or path to normalize.
+ * @param opts - Normalization options.
+ * @param page - Whether `url` points at a page rather than an asset.
+ * @returns The normalized URL.
+ */
+export function normalizeUrl(url: string, opts: UrlOptions, page = true): string {
+  if (!url) return url
+  if (!isAbsoluteUrl(url) && !opts.baseUrl) return url
+
+  let parsed: URL
+  try {
+    parsed = opts.baseUrl ? new URL(url, opts.baseUrl) : new URL(url)
+  } catch {
+    return url
+  }
+
+  if (!page) return parsed.href
+
+  if (opts.stripQueryParams?.length) {
+    const remove: string[] = []
+    parsed.searchParams.forEach((_, name) => {
+      if (matchesParam(name, opts.stripQueryParams!)) remove.push(name)
+    })
+    remove.forEach(name => parsed.searchParams.delete(name))
+  }
+
+  const path = parsed.pathname
+  if (opts.trailingSlash === 'always' && path.charAt(path.length - 1) !== '/') {
+    parsed.pathname = `${path}/`
+  } else if (opts.trailingSlash === 'never' && path !== '/' && path.charAt(path.length - 1) === '/') {
+    parsed.pathname = path.replace(/\/+$/, '')
+  }
+
+  return parsed.href
+}
+
+/** Pick the URL normalization options out of a config */
+export function urlOptionsFrom(config: SeoConfig): UrlOptions {
+  return {
+    baseUrl: config.baseUrl,
+    trailingSlash: config.trailingSlash,
+    stripQueryParams: config.stripQueryParams
+  }
+}
+
+/**
+ * Normalize every URL-bearing field of a config.
+ *
+ * Covers `canonical`, `openGraph.url`, OG image/video/audio URLs,
+ * `twitter.image`, the Twitter player, `breadcrumbs` and `languageAlternates`.
+ *
+ * @param config - Merged SEO configuration.
+ * @returns A copy of `config` with normalized URLs.
+ */
+export function normalizeConfigUrls(config: SeoConfig): SeoConfig {
+  const opts = urlOptionsFrom(config)
+  const result: SeoConfig = { ...config }
+
+  if (config.canonical) result.canonical = normalizeUrl(config.canonical, opts)
+
+  if (config.openGraph) {
+    result.openGraph = { ...config.openGraph }
+    if (config.openGraph.url) result.openGraph.url = normalizeUrl(config.openGraph.url, opts)
+    const asset = <T extends { url: string; secureUrl?: string }>(media: T): T => ({
+      ...media,
+      url: normalizeUrl(media.url, opts, false),
+      secureUrl: media.secureUrl && normalizeUrl(media.secureUrl, opts, false)
+    })
+    if (config.openGraph.images) result.openGraph.images = config.openGraph.images.map(asset)
+    if (config.openGraph.videos) result.openGraph.videos = config.openGraph.videos.map(asset)
+    if (config.openGraph.audio) result.openGraph.audio = config.openGraph.audio.map(asset)
+  }
+
+  if (config.twitter) {
+    const { image, player } = config.twitter
+    result.twitter = { ...config.twitter }
+    if (image) result.twitter.image = normalizeUrl(image, opts, false)
+    if (player) {
+      result.twitter.player = {
+        ...player,
+        url: normalizeUrl(player.url, opts, false),
+        stream: player.stream && normalizeUrl(player.stream, opts, false)
+      }
+    }
+  }
+
+  if (config.breadcrumbs) {
+    result.breadcrumbs = config.breadcrumbs.map(crumb => ({ ...crumb, url: normalizeUrl(crumb.url, opts) }))
+  }
+
+  if (config.languageAlternates) {
+    const alternates: Record<string, string> = {}
+    Object.keys(config.languageAlternates).forEach(lang => {
+      alternates[lang] = normalizeUrl(config.languageAlternates![lang], opts)
+    })
+    result.languageAlternates = alternates
+  }
+
+  return result
+}
@@ -1,6 +1,7 @@
 /**
  * Runtime and utility helpers for metafy-seo.
  */
+import type { SeoConfig } from './types'
 
 /** Check if code is running on server (no window/document) */
 export const isServer = typeof window === 'undefined'
@@ -8,6 +9,21 @@ export const isServer = typeof window === 'undefined'
 /** Check if code is running on client (has window/document) */
 export const isClient = !isServer
 
+declare const process: { env: { NODE_ENV?: string } }
+
+/**
+ * Check if this is a development build. Bundlers replace
+ * `process.env.NODE_ENV` without defining `process`, so the expression is
+ * read directly and only guarded against a missing `process` at runtime.
+ */
+export const isDev = (() => {
+  try {
+    return process.env.NODE_ENV !== 'production'
+  } catch {
+    return false
+  }
+})()
+
 /**
  * Escape HTML entities to prevent XSS attacks in meta tag content.
  * 
@@ -25,48 +41,64 @@ export function escapeHtml(str: string): string {
 }
 
 /**
- * Helper to upsert a DOM element in <head>.
- * 
- * @param head - The document.head element.
- * @param added - Array to track elements created by this component (for cleanup).
- * @param tag - Tag name ('meta' or 'link').
- * @param uniqueKey - The attribute name used to identify the tag (e.g. 'name', 'property', 'rel').
- * @param uniqueValue - The value for that attribute (e.g. 'description', 'og:title').
- * @param attrs - Full map of attributes to set on the element.
- * @returns The created/updated element, or null if running on server
+ * Check whether a URL is absolute (has a scheme such as `https:`).
+ * Protocol-relative URLs (`//cdn.example.com`) are not considered absolute.
+ */
+export function isAbsoluteUrl(url: string): boolean {
+  return /^[a-z][a-z\d+\-.]*:/i.test(url)
+}
+
+/**
+ * Build the document title from `title`, `titleTemplate` and `defaultTitle`.
+ *
+ * @returns The final document title, or `undefined` when none applies.
  */
-export function upsertTag(
-  head: HTMLElement,
-  added: HTMLElement[],
-  tag: 'meta' | 'link',
-  uniqueKey: string,
-  uniqueValue: string,
-  attrs: Record<string, string>
-): HTMLElement | null {
-  // Safety: return early if no browser document
-  if (isServer) return null
-
-  // Try to find an existing tag that matches the unique key/value
-  // e.g. meta[name="description"]
-  const selector = `${tag}[${uniqueKey}="${uniqueValue}"]`
-  let el = head.querySelector<HTMLElement>(selector)
-
-  if (!el) {
-    // Create new
-    el = document.createElement(tag)
-    // Set identifying attribute first
-    el.setAttribute(uniqueKey, uniqueValue)
-    head.appendChild(el)
-    added.push(el)
+export function resolveTitle(config: SeoConfig): string | undefined {
+  const { title, titleTemplate } = config
+  if (!title) return config.defaultTitle
+  if (!titleTemplate || config.skipTitleTemplate) return title
+
+  const separator = config.titleSeparator ?? '|'
+  const siteName = config.openGraph?.siteName
+
+  if (typeof titleTemplate === 'function') {
+    return titleTemplate(title, { siteName, separator, config })
   }
 
-  // Update/Set all other attributes
-  // We do this even if it existed, to ensure it matches current config
-  for (const [k, v] of Object.entries(attrs)) {
-    el.setAttribute(k, v)
+  // Without a site name, drop the punctuation around it so "%s — %siteName%"
+  // gives "Post" rather than "Post —". Only the template is trimmed, so
+  // separators in the title itself are kept.
+  let template = titleTemplate
+  if (!siteName) {
+    template = template
+      .replace(/[^\w\s%]*%siteName%[^\w\s%]*/g, '%siteName%')
+      .replace(/\s*(%sep%|[^\w\s%]+)\s*%siteName%/g, '')
+      .replace(/%siteName%\s*(%sep%|[^\w\s%]+)\s*/g, '')
   }
 
-  return el
+  const values: Record<string, string> = { s: title, title, siteName: siteName ?? '', sep: separator }
+  return template
+    .replace(/%(title|siteName|sep)%|%s/g, (_, name: string | undefined) => values[name || 's'])
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Structural equality for plain config values (objects, arrays, primitives).
+ * Key order is ignored; functions are compared by reference.
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aObj = a as Record<string, unknown>
+  const bObj = b as Record<string, unknown>
+  const aKeys = Object.keys(aObj).filter(k => aObj[k] !== undefined)
+  const bKeys = Object.keys(bObj).filter(k => bObj[k] !== undefined)
+  if (aKeys.length !== bKeys.length) return false
+
+  return aKeys.every(k => isEqual(aObj[k], bObj[k]))
 }
 
 /**
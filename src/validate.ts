@@ -0,0 +1,195 @@
+import type { SeoConfig, SeoIssue } from './types'
+import { isAbsoluteUrl, resolveTitle } from './utils'
+import { applyPagination } from './pagination'
+import { normalizeConfigUrls } from './url'
+import { currentAlternate, isValidHreflang } from './hreflang'
+import { TWITTER_APP_PLATFORMS } from './twitter'
+import { declaredRobots } from './robots'
+
+/** Titles longer than this are usually truncated in search results */
+const TITLE_MAX_LENGTH = 60
+
+/** Descriptions longer than this are usually truncated in search results */
+const DESCRIPTION_MAX_LENGTH = 160
+
+/**
+ * Check a config for common SEO mistakes.
+ *
+ * @remarks
+ * Pass the fully merged config (provider defaults included) so that
+ * `titleTemplate` and inherited fields are taken into account.
+ * The function is pure and does not touch the DOM.
+ *
+ * @example
+ * ```ts
+ * const issues = validateSeoConfig(blogPostPreset(post))
+ * issues.filter(i => i.severity === 'error')
+ * ```
+ *
+ * @param config - SEO configuration to check.
+ * @returns List of issues, empty when nothing was found.
+ */
+export function validateSeoConfig(config: SeoConfig): SeoIssue[] {
+  const issues: SeoIssue[] = []
+  // Pagination adds its own index/follow values, so robots checks use the input
+  const input = config
+  // Check what buildTags writes: pagination applied, URLs resolved against baseUrl
+  config = normalizeConfigUrls(applyPagination(config))
+
+  const title = resolveTitle(config)
+  if (title && title.length > TITLE_MAX_LENGTH) {
+    issues.push({
+      code: 'title-too-long',
+      severity: 'warning',
+      path: 'title',
+      message: `Title is ${title.length} characters after titleTemplate is applied; keep it under ${TITLE_MAX_LENGTH}.`
+    })
+  }
+
+  if (config.description && config.description.length > DESCRIPTION_MAX_LENGTH) {
+    issues.push({
+      code: 'description-too-long',
+      severity: 'warning',
+      path: 'description',
+      message: `Description is ${config.description.length} characters; keep it under ${DESCRIPTION_MAX_LENGTH}.`
+    })
+  }
+
+  if (!config.canonical) {
+    issues.push({
+      code: 'canonical-missing',
+      severity: 'warning',
+      path: 'canonical',
+      message: 'No canonical URL is set.'
+    })
+  }
+
+  const checkAbsolute = (path: string, url: string | undefined) => {
+    if (!url || isAbsoluteUrl(url)) return
+    issues.push({
+      code: 'relative-url',
+      severity: 'error',
+      path,
+      message: `"${url}" is relative; social scrapers require absolute URLs.`
+    })
+  }
+
+  const og = config.openGraph
+  checkAbsolute('openGraph.url', og?.url)
+  og?.images?.forEach((img, i) => {
+    checkAbsolute(`openGraph.images[${i}].url`, img.url)
+    if (!img.width || !img.height) {
+      issues.push({
+        code: 'og-image-dimensions-missing',
+        severity: 'warning',
+        path: `openGraph.images[${i}]`,
+        message: 'og:image has no width/height; scrapers may skip the image until it is fetched.'
+      })
+    }
+  })
+
+  og?.videos?.forEach((video, i) => checkAbsolute(`openGraph.videos[${i}].url`, video.url))
+  og?.audio?.forEach((audio, i) => checkAbsolute(`openGraph.audio[${i}].url`, audio.url))
+
+  const tw = config.twitter
+  const twitterImage = tw?.image || og?.images?.[0]?.url
+  if (tw?.card === 'summary_large_image' && !twitterImage) {
+    issues.push({
+      code: 'twitter-image-missing',
+      severity: 'error',
+      path: 'twitter.image',
+      message: 'summary_large_image card has no twitter.image or og:image.'
+    })
+  }
+  if (tw?.image && !tw.imageAlt) {
+    issues.push({
+      code: 'twitter-image-alt-missing',
+      severity: 'warning',
+      path: 'twitter.imageAlt',
+      message: 'twitter.image is set without twitter.imageAlt.'
+    })
+  }
+
+  if (tw?.card === 'player' && !tw.player?.url) {
+    issues.push({
+      code: 'twitter-player-missing',
+      severity: 'error',
+      path: 'twitter.player',
+      message: 'player card has no twitter.player.url.'
+    })
+  }
+  checkAbsolute('twitter.player.url', tw?.player?.url)
+  if (tw?.card === 'app' && !TWITTER_APP_PLATFORMS.some(platform => tw.app?.[platform]?.id)) {
+    issues.push({
+      code: 'twitter-app-missing',
+      severity: 'error',
+      path: 'twitter.app',
+      message: 'app card has no App Store or Google Play id in twitter.app.'
+    })
+  }
+
+  const robots = declaredRobots(input)
+  const conflicts: string[] = []
+  if (input.noindex && robots.index === true) conflicts.push('index')
+  if (input.nofollow && robots.follow === true) conflicts.push('follow')
+  if (conflicts.length) {
+    const typed = input.robotsDirectives || {}
+    const fromTyped = conflicts.some(name => typed[name as 'index' | 'follow'] !== undefined)
+    issues.push({
+      code: 'robots-conflict',
+      severity: 'warning',
+      path: fromTyped ? 'robotsDirectives' : 'robots',
+      message: `"${conflicts.join(',')}" conflicts with noindex/nofollow, which take precedence.`
+    })
+  }
+
+  const alternates = config.languageAlternates
+  if (alternates && Object.keys(alternates).length) {
+    if (!alternates['x-default']) {
+      issues.push({
+        code: 'hreflang-x-default-missing',
+        severity: 'warning',
+        path: 'languageAlternates',
+        message: 'languageAlternates has no "x-default" entry.'
+      })
+    }
+
+    Object.keys(alternates).forEach(lang => {
+      if (isValidHreflang(lang)) return
+      issues.push({
+        code: 'hreflang-invalid',
+        severity: 'error',
+        path: `languageAlternates.${lang}`,
+        message: `"${lang}" is not a valid hreflang code; use a BCP-47 tag such as "en" or "en-GB", or "x-default".`
+      })
+    })
+
+    // hreflang must be reciprocal, so each page lists itself too
+    if (config.canonical && !currentAlternate(config)) {
+      issues.push({
+        code: 'hreflang-self-missing',
+        severity: 'warning',
+        path: 'languageAlternates',
+        message: `No languageAlternates entry points at the canonical URL "${config.canonical}".`
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Log validation issues as a collapsed console group.
+ *
+ * @param issues - Issues returned by `validateSeoConfig`.
+ */
+export function reportSeoIssues(issues: SeoIssue[]): void {
+  if (!issues.length || typeof console === 'undefined') return
+
+  console.groupCollapsed(`[metafy-seo] ${issues.length} SEO issue(s) found`)
+  issues.forEach(issue => {
+    const log = issue.severity === 'error' ? console.error : console.warn
+    log(`${issue.code} at ${issue.path}: ${issue.message}`)
+  })
+  console.groupEnd()
+}
@@ -0,0 +1,95 @@
+import React from 'react'
+import { act, cleanup, render } from '@testing-library/react'
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { AsyncSeoTags } from '../src/AsyncSeoTags'
+import type { SeoConfig } from '../src/types'
+
+function deferred() {
+  let resolve!: (config: SeoConfig) => void
+  const promise = new Promise<SeoConfig>(r => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+describe('AsyncSeoTags', () => {
+  afterEach(() => {
+    cleanup()
+    document.title = ''
+  })
+
+  it('shows the fallback while pending, then the resolved config', async () => {
+    const request = deferred()
+    render(<AsyncSeoTags load={request.promise} fallback={{ title: 'Loading…' }} />)
+
+    expect(document.title).toBe('Loading…')
+
+    await act(async () => {
+      request.resolve({ title: 'Blue Shoes' })
+    })
+    expect(document.title).toBe('Blue Shoes')
+  })
+
+  it('ignores a slow response for a previous request', async () => {
+    const requests: Record<string, ReturnType<typeof deferred>> = { a: deferred(), b: deferred() }
+    const signals: AbortSignal[] = []
+    const Product = ({ id }: { id: string }) => (
+      <AsyncSeoTags
+        load={signal => {
+          signals.push(signal)
+          return requests[id].promise
+        }}
+        fallback={{ title: 'Loading…' }}
+        deps={[id]}
+      />
+    )
+
+    const { rerender } = render(<Product id="a" />)
+    rerender(<Product id="b" />)
+    expect(signals[0].aborted).toBe(true)
+
+    await act(async () => {
+      requests.b.resolve({ title: 'Product B' })
+    })
+    await act(async () => {
+      requests.a.resolve({ title: 'Product A' })
+    })
+
+    expect(document.title).toBe('Product B')
+  })
+
+  it('keeps the fallback and reports errors when loading fails', async () => {
+    const errors: unknown[] = []
+    render(
+      <AsyncSeoTags
+        load={Promise.reject(new Error('boom'))}
+        fallback={{ title: 'Product' }}
+        onError={error => errors.push(error)}
+      />
+    )
+
+    await act(async () => {})
+
+    expect(document.title).toBe('Product')
+    expect(errors).toHaveLength(1)
+  })
+
+  it('reports loaders that throw synchronously through onError', async () => {
+    const errors: unknown[] = []
+    render(
+      <AsyncSeoTags
+        load={() => {
+          throw new Error('sync')
+        }}
+        fallback={{ title: 'Product' }}
+        onError={error => errors.push(error)}
+      />
+    )
+
+    await act(async () => {})
+
+    expect(document.title).toBe('Product')
+    expect(errors).toEqual([new Error('sync')])
+  })
+})
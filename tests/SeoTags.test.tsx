@@ -1,9 +1,12 @@
 import React from 'react'
-import { cleanup, render } from '@testing-library/react'
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { act, cleanup, render } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 import { SeoProvider } from '../src/SeoProvider'
 import { SeoTags } from '../src/SeoTags'
+import { buildTags, renderHeadToString } from '../src/tags'
+import { createHeadWriter } from '../src/head'
+import { reportSeoIssues } from '../src/validate'
 
 function getMetaByName(name: string): HTMLMetaElement | null {
   return document.head.querySelector(`meta[name="${name}"]`)
@@ -126,4 +129,323 @@ describe('SeoTags', () => {
     expect(getMetaByName('custom-meta')).toBeNull()
     expect(document.head.querySelector('script[type="application/ld+json"]')).toBeNull()
   })
+
+  it('lets the deepest instance win and restores the layout on unmount', () => {
+    const Page = ({ show }: { show: boolean }) => (
+      <SeoProvider defaults={{ titleTemplate: '%s | Site', description: 'Site description' }}>
+        <SeoTags title="Blog" description="Blog description" robots="index,follow" />
+        {show && <SeoTags title="Post" description="Post description" />}
+      </SeoProvider>
+    )
+
+    const { rerender } = render(<Page show />)
+
+    expect(document.title).toBe('Post | Site')
+    expect(getMetaByName('description')?.getAttribute('content')).toBe('Post description')
+    expect(getMetaByName('robots')?.getAttribute('content')).toBe('index,follow')
+    expect(document.head.querySelectorAll('meta[name="description"]').length).toBe(1)
+
+    rerender(<Page show={false} />)
+
+    expect(document.title).toBe('Blog | Site')
+    expect(getMetaByName('description')?.getAttribute('content')).toBe('Blog description')
+    expect(getMetaByName('robots')?.getAttribute('content')).toBe('index,follow')
+  })
+
+  it('falls back to provider defaults for fields no instance sets', () => {
+    render(
+      <SeoProvider defaults={{ description: 'Site description' }}>
+        <SeoTags title="Layout" />
+        <SeoTags title="Page" />
+      </SeoProvider>
+    )
+
+    expect(document.title).toBe('Page')
+    expect(getMetaByName('description')?.getAttribute('content')).toBe('Site description')
+  })
+
+  it('logs validation issues for the resolved config in development', async () => {
+    const group = vi.spyOn(console, 'groupCollapsed').mockImplementation(() => {})
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'groupEnd').mockImplementation(() => {})
+    const actual = await vi.importActual<typeof import('../src/validate')>('../src/validate')
+    vi.mocked(reportSeoIssues).mockImplementationOnce(actual.reportSeoIssues)
+
+    render(<SeoTags title="Untitled" description="Missing a canonical link" />)
+    await Promise.resolve()
+
+    expect(group).toHaveBeenCalledTimes(1)
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('canonical-missing'))
+
+    vi.restoreAllMocks()
+  })
+
+  it('resolves relative URLs against the provider baseUrl', () => {
+    render(
+      <SeoProvider defaults={{ baseUrl: 'https://example.com', stripQueryParams: ['utm_*'] }}>
+        <SeoTags canonical="/posts/hello?utm_source=feed" openGraph={{ url: '/posts/hello' }} />
+      </SeoProvider>
+    )
+
+    expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe('https://example.com/posts/hello')
+    expect(getMetaByProperty('og:url')?.getAttribute('content')).toBe('https://example.com/posts/hello')
+  })
+
+  it('derives canonical and og:url from the location with autoCanonical', () => {
+    window.history.replaceState(null, '', '/blog?page=2&utm_source=feed')
+
+    const { rerender } = render(
+      <SeoProvider defaults={{ baseUrl: 'https://example.com' }} autoCanonical={{ allowParams: ['page'] }}>
+        <SeoTags title="Blog" />
+      </SeoProvider>
+    )
+
+    const canonical = () => document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')
+    expect(canonical()).toBe('https://example.com/blog?page=2')
+    expect(getMetaByProperty('og:url')?.getAttribute('content')).toBe('https://example.com/blog?page=2')
+
+    act(() => {
+      window.history.pushState(null, '', '/about?fbclid=abc')
+    })
+    expect(canonical()).toBe('https://example.com/about')
+
+    rerender(
+      <SeoProvider defaults={{ baseUrl: 'https://example.com' }} autoCanonical={{ allowParams: ['page'] }}>
+        <SeoTags title="About" canonical="/about-us" />
+      </SeoProvider>
+    )
+    expect(canonical()).toBe('https://example.com/about-us')
+    expect(getMetaByProperty('og:url')?.getAttribute('content')).toBe('https://example.com/about-us')
+
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('combines structured data from defaults and nested instances', () => {
+    render(
+      <SeoProvider
+        defaults={{
+          structuredDataGraph: true,
+          structuredData: [{ '@context': 'https://schema.org', '@type': 'Organization', '@id': '#org', name: 'Acme' }]
+        }}
+      >
+        <SeoTags structuredData={[{ '@type': 'WebSite', '@id': '#site', publisher: { '@id': '#org' } }]} />
+        <SeoTags structuredData={[{ '@type': 'Article', headline: 'Hello', publisher: { '@id': '#org' } }]} />
+      </SeoProvider>
+    )
+
+    const scripts = document.head.querySelectorAll('script[type="application/ld+json"]')
+    expect(scripts.length).toBe(1)
+
+    const graph = JSON.parse(scripts[0].textContent || '{}')['@graph']
+    expect(graph.map((node: { '@type': string }) => node['@type'])).toEqual(['Organization', 'WebSite', 'Article'])
+  })
+
+  it('replaces prerendered managed tags on mount', () => {
+    document.head.insertAdjacentHTML(
+      'beforeend',
+      renderHeadToString({ openGraph: { images: [{ url: 'https://example.com/prerendered.jpg' }] } })
+    )
+
+    render(<SeoTags openGraph={{ images: [{ url: 'https://example.com/live.jpg' }] }} />)
+
+    const ogImages = Array.from(document.head.querySelectorAll('meta[property="og:image"]')).map(el =>
+      el.getAttribute('content')
+    )
+    expect(ogImages).toEqual(['https://example.com/live.jpg'])
+  })
+
+  it('sweeps stale prerendered tags but not those of another writer', () => {
+    document.head.insertAdjacentHTML('beforeend', '<meta name="stale" content="1" data-metafy="extra-meta-5">')
+    const first = createHeadWriter(document.head)
+    const second = createHeadWriter(document.head)
+
+    first.apply(buildTags({ extraMeta: [{ name: 'widget', content: '1' }] }))
+    expect(getMetaByName('stale')).toBeNull()
+
+    second.apply(buildTags({ description: 'Other', structuredData: [{ '@type': 'Thing' }] }))
+    first.apply(buildTags({ extraMeta: [{ name: 'widget', content: '2' }] }))
+
+    expect(getMetaByName('widget')?.getAttribute('content')).toBe('2')
+    expect(document.head.querySelectorAll('script[type="application/ld+json"]').length).toBe(1)
+
+    first.apply([])
+    second.apply([])
+  })
+
+  it('updates tags in place and removes only the ones that went away', () => {
+    const { rerender } = render(<SeoTags title="A" description="First" extraMeta={[{ name: 'custom-meta', content: '1' }]} />)
+    const description = getMetaByName('description')
+
+    rerender(<SeoTags title="A" description="Second" />)
+
+    expect(getMetaByName('description')).toBe(description)
+    expect(description?.getAttribute('content')).toBe('Second')
+    expect(getMetaByName('custom-meta')).toBeNull()
+  })
+
+  it('only mutates tags whose attributes changed', () => {
+    const Page = ({ description }: { description: string }) => (
+      <SeoTags
+        title="Shop"
+        description={description}
+        openGraph={{ images: [{ url: 'https://example.com/a.jpg', width: 1200, height: 630 }] }}
+        structuredData={[{ '@type': 'Thing', name: 'Sample' }]}
+      />
+    )
+    const { rerender } = render(<Page description="First" />)
+    const ogImage = getMetaByProperty('og:image')
+
+    const observer = new MutationObserver(() => {})
+    observer.observe(document.head, { subtree: true, childList: true, attributes: true, characterData: true })
+
+    rerender(<Page description="First" />)
+    expect(observer.takeRecords()).toEqual([])
+
+    rerender(<Page description="Second" />)
+    const records = observer.takeRecords()
+    observer.disconnect()
+
+    expect(records.length).toBe(1)
+    expect(records[0].target).toBe(getMetaByName('description'))
+    expect(records[0].attributeName).toBe('content')
+    expect(getMetaByProperty('og:image')).toBe(ogImage)
+  })
+
+  it('applies the matching route config and lets SeoTags override it', () => {
+    window.history.replaceState(null, '', '/blog/hello')
+    const routes = {
+      '/': { title: 'Home' },
+      '/blog/:slug': ({ slug }: Record<string, string>) => ({ title: `Post: ${slug}`, description: 'From route table' })
+    }
+
+    const { rerender } = render(<SeoProvider routes={routes} />)
+    expect(document.title).toBe('Post: hello')
+    expect(getMetaByName('description')?.getAttribute('content')).toBe('From route table')
+
+    act(() => {
+      window.history.pushState(null, '', '/')
+    })
+    expect(document.title).toBe('Home')
+
+    rerender(
+      <SeoProvider routes={routes}>
+        <SeoTags title="Welcome" />
+      </SeoProvider>
+    )
+    expect(document.title).toBe('Welcome')
+  })
+
+  it('restores the original document title when no title applies', () => {
+    document.title = 'Index title'
+
+    const { rerender } = render(<SeoTags title="Page" />)
+    expect(document.title).toBe('Page')
+
+    rerender(<SeoTags description="No title here" />)
+    expect(document.title).toBe('Index title')
+  })
+
+  it('builds the breadcrumb trail from nested layers', () => {
+    const Tree = ({ post }: { post: boolean }) => (
+      <SeoProvider defaults={{ baseUrl: 'https://example.com' }} breadcrumb={{ name: 'Home', url: '/' }}>
+        <SeoTags breadcrumb={{ name: 'Blog', url: '/blog' }} />
+        {post && <SeoTags breadcrumb={{ name: 'Hello', url: '/blog/hello' }} />}
+      </SeoProvider>
+    )
+    const trail = () =>
+      JSON.parse(document.head.querySelector('script[type="application/ld+json"]')?.textContent || '{}')
+        .itemListElement.map((item: { item: string }) => item.item)
+
+    const { rerender } = render(<Tree post />)
+    expect(trail()).toEqual(['https://example.com/', 'https://example.com/blog', 'https://example.com/blog/hello'])
+
+    rerender(<Tree post={false} />)
+    expect(trail()).toEqual(['https://example.com/', 'https://example.com/blog'])
+  })
+  it('removes hreflang alternates the next route no longer lists', () => {
+    const hreflangs = () =>
+      Array.from(document.head.querySelectorAll('link[hreflang]')).map(el => el.getAttribute('hreflang'))
+
+    const { rerender } = render(
+      <SeoTags
+        canonical="https://example.com/en"
+        languageAlternates={{ en: 'https://example.com/en', de: 'https://example.com/de', 'x-default': 'https://example.com/en' }}
+      />
+    )
+    expect(hreflangs()).toEqual(['en', 'de', 'x-default'])
+    expect(getMetaByProperty('og:locale')?.getAttribute('content')).toBe('en')
+
+    rerender(<SeoTags canonical="https://example.com/en/about" languageAlternates={{ en: 'https://example.com/en/about' }} />)
+    expect(hreflangs()).toEqual(['en'])
+    expect(document.head.querySelectorAll('meta[property="og:locale:alternate"]')).toHaveLength(0)
+  })
+  it('applies per-locale defaults, html lang and og:locale', () => {
+    document.documentElement.setAttribute('lang', 'x-original')
+    const App = ({ locale }: { locale: string }) => (
+      <SeoProvider
+        locale={locale}
+        defaults={{ titleTemplate: '%s | Acme', twitter: { site: '@acme' } }}
+        locales={{ de: { titleTemplate: '%s | Acme DE', twitter: { site: '@acme_de' } } }}
+      >
+        <SeoTags title="Start" />
+      </SeoProvider>
+    )
+
+    const { rerender, unmount } = render(<App locale="en-US" />)
+    expect(document.title).toBe('Start | Acme')
+    expect(document.documentElement.lang).toBe('en-US')
+    expect(getMetaByProperty('og:locale')?.getAttribute('content')).toBe('en_US')
+
+    rerender(<App locale="de" />)
+    expect(document.title).toBe('Start | Acme DE')
+    expect(getMetaByName('twitter:site')?.getAttribute('content')).toBe('@acme_de')
+    expect(document.documentElement.lang).toBe('de')
+
+    unmount()
+    expect(document.documentElement.getAttribute('lang')).toBe('x-original')
+    document.documentElement.removeAttribute('lang')
+  })
+  it('applies html and body attributes and restores them on unmount', () => {
+    document.body.className = 'app'
+    const Tree = ({ page }: { page: boolean }) => (
+      <SeoProvider locale="ar" defaults={{ htmlAttributes: { 'data-theme': 'light' } }}>
+        <SeoTags htmlAttributes={{ class: 'js' }} />
+        {page && <SeoTags htmlAttributes={{ 'data-theme': 'dark' }} bodyAttributes={{ class: 'article' }} />}
+      </SeoProvider>
+    )
+
+    const { rerender, unmount } = render(<Tree page />)
+    const html = document.documentElement
+    expect([html.lang, html.dir, html.className, html.getAttribute('data-theme')]).toEqual(['ar', 'rtl', 'js', 'dark'])
+    expect(document.body.className).toBe('article')
+
+    rerender(<Tree page={false} />)
+    expect(html.getAttribute('data-theme')).toBe('light')
+    expect(document.body.className).toBe('app')
+
+    unmount()
+    expect(['lang', 'dir', 'class', 'data-theme'].map(name => html.hasAttribute(name))).toEqual([false, false, false, false])
+    document.body.removeAttribute('class')
+  })
+  it('composes nested providers and honours merge strategies and opt-outs', () => {
+    const customMeta = () =>
+      Array.from(document.head.querySelectorAll('meta[data-metafy^="extra-meta"]')).map(el => el.getAttribute('name'))
+
+    render(
+      <SeoProvider
+        defaults={{ description: 'Site', twitter: { site: '@site' }, extraMeta: [{ name: 'site-meta', content: '1' }] }}
+        mergeStrategies={{ extraMeta: 'append' }}
+      >
+        <SeoProvider defaults={{ titleTemplate: '%s | Docs', extraMeta: [{ name: 'docs-meta', content: '1' }] }}>
+          <SeoTags extraMeta={[{ name: 'layout-meta', content: '1' }]} />
+          <SeoTags title="Intro" extraMeta={[{ name: 'page-meta', content: '1' }]} omitDefaults={['twitter.site']} />
+        </SeoProvider>
+      </SeoProvider>
+    )
+
+    expect(document.title).toBe('Intro | Docs')
+    expect(getMetaByName('description')?.getAttribute('content')).toBe('Site')
+    expect(getMetaByName('twitter:site')).toBeNull()
+    expect(customMeta()).toEqual(['site-meta', 'docs-meta', 'layout-meta', 'page-meta'])
+  })
 })
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+
+import { collectBreadcrumbs } from '../src/breadcrumbs'
+import { buildTags } from '../src/tags'
+
+describe('collectBreadcrumbs', () => {
+  it('joins layer crumbs in order and collapses repeated URLs', () => {
+    expect(
+      collectBreadcrumbs([
+        { breadcrumb: { name: 'Home', url: '/' } },
+        { title: 'No crumb' },
+        { breadcrumb: { name: 'Blog', url: '/blog' } },
+        { breadcrumb: { name: 'All posts', url: '/blog' } },
+        { breadcrumb: { name: 'Hello', url: '/blog/hello' } }
+      ])
+    ).toEqual([
+      { name: 'Home', url: '/' },
+      { name: 'All posts', url: '/blog' },
+      { name: 'Hello', url: '/blog/hello' }
+    ])
+  })
+})
+
+describe('breadcrumbs in buildTags', () => {
+  it('emits a BreadcrumbList with absolute URLs and positions', () => {
+    const script = buildTags({
+      baseUrl: 'https://example.com',
+      breadcrumbs: [
+        { name: 'Home', url: '/' },
+        { name: 'Blog', url: '/blog' }
+      ]
+    }).find(t => t.tag === 'script')
+
+    expect(JSON.parse(script?.tag === 'script' ? script.content : '{}')).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'BreadcrumbList',
+      itemListElement: [
+        { '@type': 'ListItem', position: 1, name: 'Home', item: 'https://example.com/' },
+        { '@type': 'ListItem', position: 2, name: 'Blog', item: 'https://example.com/blog' }
+      ]
+    })
+  })
+})
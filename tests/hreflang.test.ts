@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildLanguageAlternates, isValidHreflang, toOgLocale } from '../src/hreflang'
+import { renderHeadToString } from '../src/tags'
+import { validateSeoConfig } from '../src/validate'
+
+describe('hreflang', () => {
+  it('builds alternates from a locale list and URL pattern', () => {
+    expect(buildLanguageAlternates(['en', 'fr-CA'], 'https://example.com/:locale/pricing')).toEqual({
+      en: 'https://example.com/en/pricing',
+      'fr-CA': 'https://example.com/fr-CA/pricing',
+      'x-default': 'https://example.com/en/pricing'
+    })
+
+    expect(buildLanguageAlternates(['en', 'de'], locale => `/${locale}`, { xDefault: 'de' })['x-default']).toBe('/de')
+    expect(buildLanguageAlternates(['en'], '/:locale', { xDefault: false })).toEqual({ en: '/en' })
+  })
+
+  it('accepts BCP-47 language, script and region subtags', () => {
+    expect(['en', 'en-GB', 'zh-Hant', 'zh-Hant-TW', 'es-419', 'x-default'].every(isValidHreflang)).toBe(true)
+    expect(['EN_us', 'english', 'en-', 'x-defaults', 'uk-UA-extra'].some(isValidHreflang)).toBe(false)
+    expect(toOgLocale('zh-hant-tw')).toBe('zh_TW')
+  })
+
+  it('derives og:locale and og:locale:alternate from the canonical entry', () => {
+    const html = renderHeadToString({
+      baseUrl: 'https://example.com',
+      canonical: '/fr',
+      languageAlternates: { 'en-US': '/en', 'en-GB': '/uk', fr: '/fr', 'x-default': '/en' }
+    })
+
+    expect(html).toContain('<meta property="og:locale" content="fr">')
+    expect(html.match(/og:locale:alternate" content="[^"]+"/g)).toEqual([
+      'og:locale:alternate" content="en_US"',
+      'og:locale:alternate" content="en_GB"'
+    ])
+  })
+
+  it('keeps explicit openGraph locale values', () => {
+    const html = renderHeadToString({
+      language: 'en-US',
+      openGraph: { locale: 'en_US', localeAlternates: ['fr_FR'] },
+      languageAlternates: { 'en-US': '/en', de: '/de' }
+    })
+
+    expect(html).toContain('content="en_US"')
+    expect(html).toContain('<meta property="og:locale:alternate" content="fr_FR" data-metafy="og-locale-alternate-0">')
+    expect(html).not.toContain('content="de"')
+  })
+
+  it('flags invalid codes and pages missing from their own alternates', () => {
+    const issues = validateSeoConfig({
+      baseUrl: 'https://example.com',
+      canonical: '/es',
+      languageAlternates: { en: '/en', en_GB: '/uk', 'x-default': '/en' }
+    })
+
+    expect(issues.map(i => [i.code, i.path])).toEqual([
+      ['hreflang-invalid', 'languageAlternates.en_GB'],
+      ['hreflang-self-missing', 'languageAlternates']
+    ])
+  })
+})
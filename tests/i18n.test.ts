@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import { isRtlLocale, resolveText } from '../src/i18n'
+import { listingPreset, pagePreset } from '../src/presets'
+import { buildTags } from '../src/tags'
+
+const messages: Record<string, string> = {
+  'about.title': 'Über uns',
+  'about.description': 'Wer wir sind',
+  'blog.title': 'Blog',
+  'listing.page': '{title} – Seite {page}'
+}
+
+const translate = (key: string, values?: Record<string, string | number>) =>
+  messages[key]?.replace(/\{(\w+)\}/g, (_, name: string) => String(values?.[name]))
+
+describe('message keys', () => {
+  it('falls back to defaultMessage, then the key', () => {
+    expect(resolveText('Literal', translate)).toBe('Literal')
+    expect(resolveText({ key: 'missing', defaultMessage: 'Fallback' }, translate)).toBe('Fallback')
+    expect(resolveText({ key: 'about.title' })).toBe('about.title')
+  })
+
+  it('resolves preset text through the translate function', () => {
+    const config = pagePreset({ title: { key: 'about.title' }, description: { key: 'about.description' }, url: '/about' }, translate)
+
+    expect(config.title).toBe('Über uns')
+    expect(config.openGraph?.description).toBe('Wer wir sind')
+    expect(buildTags(config).find(t => t.key === 'name:twitter:title')?.attributes.content).toBe('Über uns')
+  })
+
+  it('translates the listing page suffix', () => {
+    const config = listingPreset(
+      { title: { key: 'blog.title' }, description: 'Posts', url: '/blog', page: 2, totalPages: 3, pageTitle: { key: 'listing.page' } },
+      translate
+    )
+
+    expect(config.title).toBe('Blog – Seite 2')
+  })
+  it('detects right-to-left locales, honouring script subtags', () => {
+    expect(['ar', 'he-IL', 'fa', 'ur-PK', 'uz-Arab'].every(isRtlLocale)).toBe(true)
+    expect(['en', 'de-AT', 'ku-Latn', 'az-Latn'].some(isRtlLocale)).toBe(false)
+  })
+})
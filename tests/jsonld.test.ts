@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+
+import { mergeStructuredData, serializeJsonLd, toJsonLdGraph } from '../src/jsonld'
+
+describe('mergeStructuredData', () => {
+  it('keeps nodes from every layer and merges those sharing an @id', () => {
+    const org = { '@context': 'https://schema.org', '@type': 'Organization', '@id': '#org', name: 'Acme' }
+    const article = { '@type': 'Article', headline: 'Hello', publisher: { '@id': '#org' } }
+
+    expect(
+      mergeStructuredData([
+        [org],
+        undefined,
+        [{ '@id': '#org', logo: 'https://acme.com/logo.png' }, article]
+      ])
+    ).toEqual([
+      { ...org, logo: 'https://acme.com/logo.png' },
+      article
+    ])
+  })
+})
+
+describe('toJsonLdGraph', () => {
+  it('hoists the schema.org context and keeps references', () => {
+    expect(
+      toJsonLdGraph([
+        { '@context': 'https://schema.org', '@type': 'Organization', '@id': '#org' },
+        { '@type': 'Article', publisher: { '@id': '#org' } }
+      ])
+    ).toEqual({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'Organization', '@id': '#org' },
+        { '@type': 'Article', publisher: { '@id': '#org' } }
+      ]
+    })
+  })
+})
+
+describe('serializeJsonLd', () => {
+  it('escapes characters that could close the script element', () => {
+    const value = { '@type': 'Review', reviewBody: '</script><script>alert(1)</script><!-- & \u2028\u2029' }
+    const json = serializeJsonLd(value)
+
+    expect(json).not.toMatch(/[<>&\u2028\u2029]/)
+    expect(json).toContain('\\u003c/script\\u003e')
+    expect(JSON.parse(json)).toEqual(value)
+  })
+
+  it('rejects values JSON cannot represent', () => {
+    const cyclic: Record<string, unknown> = { '@type': 'Thing' }
+    cyclic.self = cyclic
+
+    expect(() => serializeJsonLd({ name: () => 'x' })).toThrow('function at $.name')
+    expect(() => serializeJsonLd({ offers: [{ price: BigInt(1) }] })).toThrow('bigint at $.offers[0].price')
+    expect(() => serializeJsonLd(cyclic)).toThrow('circular reference at $.self')
+  })
+
+  it('allows the same object to appear twice without a cycle', () => {
+    const org = { '@id': '#org' }
+    expect(JSON.parse(serializeJsonLd({ publisher: org, author: org }))).toEqual({ publisher: org, author: org })
+  })
+})
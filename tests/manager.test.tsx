@@ -0,0 +1,112 @@
+import React, { useEffect } from 'react'
+import { cleanup, render } from '@testing-library/react'
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { SeoProvider, useSeo } from '../src/SeoProvider'
+import { SeoTags, useSeoTags } from '../src/SeoTags'
+import { createSeoManager } from '../src/manager'
+import { defaultRegistry } from '../src/registry'
+
+function description(): string | null | undefined {
+  return document.head.querySelector('meta[name="description"]')?.getAttribute('content')
+}
+
+describe('createSeoManager', () => {
+  afterEach(() => {
+    cleanup()
+    document.title = ''
+  })
+
+  it('sets and resets the head without a component', () => {
+    const seo = createSeoManager()
+
+    seo.set({ title: 'Widget', description: 'From vanilla code' })
+    expect(document.title).toBe('Widget')
+    expect(description()).toBe('From vanilla code')
+
+    seo.reset()
+    expect(description()).toBeUndefined()
+  })
+
+  it('shares the document registry with a provider when created without context', () => {
+    render(
+      <SeoProvider defaults={{ titleTemplate: '%s | Site' }}>
+        <SeoTags
+          title="Product"
+          openGraph={{ images: [{ url: 'https://example.com/a.jpg' }] }}
+          extraMeta={[{ name: 'page-meta', content: '1' }]}
+        />
+      </SeoProvider>
+    )
+    const seo = createSeoManager()
+
+    seo.set({ title: 'Widget', description: 'widget' })
+    expect(document.title).toBe('Widget | Site')
+    expect(description()).toBe('widget')
+    expect(document.head.querySelectorAll('[data-metafy]').length).toBe(2)
+
+    seo.reset()
+    expect(document.title).toBe('Product | Site')
+    expect(description()).toBeUndefined()
+    expect(document.head.querySelectorAll('[data-metafy]').length).toBe(2)
+  })
+
+  it('shares provider defaults and stacks under later components', () => {
+    const Loader = () => {
+      const context = useSeo()
+      useEffect(() => {
+        const seo = createSeoManager(context)
+        seo.set({ title: 'Loading', description: 'From loader' })
+        return () => seo.reset()
+      }, [context])
+      return null
+    }
+
+    const { rerender, unmount } = render(
+      <SeoProvider defaults={{ titleTemplate: '%s | Site' }}>
+        <Loader />
+      </SeoProvider>
+    )
+    expect(document.title).toBe('Loading | Site')
+
+    rerender(
+      <SeoProvider defaults={{ titleTemplate: '%s | Site' }}>
+        <Loader />
+        <SeoTags title="Product" />
+      </SeoProvider>
+    )
+    expect(document.title).toBe('Product | Site')
+    expect(description()).toBe('From loader')
+
+    rerender(
+      <SeoProvider defaults={{ titleTemplate: '%s — Site' }}>
+        <Loader />
+      </SeoProvider>
+    )
+    expect(document.title).toBe('Loading — Site')
+
+    unmount()
+    expect(description()).toBeUndefined()
+    expect(defaultRegistry.resolve()).toBeNull()
+  })
+})
+
+describe('useSeoTags', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('behaves like SeoTags', () => {
+    const ErrorPage = () => {
+      useSeoTags({ title: 'Oops', description: 'Something broke' })
+      return <h1>Oops</h1>
+    }
+
+    const { unmount } = render(<ErrorPage />)
+    expect(document.title).toBe('Oops')
+    expect(description()).toBe('Something broke')
+
+    unmount()
+    expect(description()).toBeUndefined()
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+
+import { mergeConfigs, omitDefaults, uniqueBy } from '../src/merge'
+
+describe('mergeConfigs', () => {
+  const defaults = {
+    extraMeta: [{ name: 'a', content: '1' }, { name: 'b', content: '1' }],
+    openGraph: { siteName: 'Site', images: [{ url: '/default.jpg' }] }
+  }
+  const page = {
+    extraMeta: [{ name: 'b', content: '2' }, { name: 'c', content: '2' }],
+    openGraph: { images: [{ url: '/page.jpg' }] }
+  }
+
+  it('replaces arrays unless a strategy is set for their path', () => {
+    const merged = mergeConfigs(defaults, page)
+    expect(merged.extraMeta).toEqual(page.extraMeta)
+    expect(merged.openGraph).toEqual({ siteName: 'Site', images: [{ url: '/page.jpg' }] })
+  })
+
+  it('appends, prepends and dedupes by key', () => {
+    expect(mergeConfigs(defaults, page, { 'openGraph.images': 'append' }).openGraph?.images).toEqual([
+      { url: '/default.jpg' },
+      { url: '/page.jpg' }
+    ])
+    expect(mergeConfigs(defaults, page, { 'openGraph.images': 'prepend' }).openGraph?.images?.[0].url).toBe('/page.jpg')
+    expect(mergeConfigs(defaults, page, { extraMeta: uniqueBy('name') }).extraMeta).toEqual([
+      { name: 'a', content: '1' },
+      { name: 'b', content: '2' },
+      { name: 'c', content: '2' }
+    ])
+  })
+})
+
+describe('omitDefaults', () => {
+  it('drops dotted paths or everything', () => {
+    const defaults = { description: 'D', twitter: { site: '@site', card: 'summary' as const } }
+
+    expect(omitDefaults(defaults, ['twitter.site', 'missing.path'])).toEqual({ description: 'D', twitter: { card: 'summary' } })
+    expect(omitDefaults(defaults, true)).toEqual({})
+    expect(omitDefaults(defaults, undefined)).toBe(defaults)
+  })
+})
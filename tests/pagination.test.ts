@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+
+import { listingPreset } from '../src/presets'
+import { renderHeadToString } from '../src/tags'
+
+describe('listingPreset', () => {
+  const listing = (page: number) =>
+    listingPreset({
+      title: 'Blog',
+      description: 'All posts',
+      url: 'https://example.com/blog',
+      page,
+      totalPages: 5,
+      noindexAfter: 3
+    })
+
+  it('links neighbours and canonicalizes to the current page', () => {
+    const html = renderHeadToString(listing(3))
+
+    expect(html).toContain('<title>Blog – Page 3</title>')
+    expect(html).toContain('<link rel="canonical" href="https://example.com/blog?page=3">')
+    expect(html).toContain('<link rel="prev" href="https://example.com/blog?page=2">')
+    expect(html).toContain('<link rel="next" href="https://example.com/blog?page=4">')
+    expect(html).toContain('<meta property="og:url" content="https://example.com/blog?page=3">')
+    expect(html).not.toContain('name="robots"')
+  })
+
+  it('omits prev on the first page and next on the last', () => {
+    expect(renderHeadToString(listing(1))).not.toContain('rel="prev"')
+    expect(renderHeadToString(listing(1))).toContain('<link rel="canonical" href="https://example.com/blog">')
+    expect(renderHeadToString(listing(5))).not.toContain('rel="next"')
+  })
+
+  it('switches to noindex,follow beyond noindexAfter', () => {
+    expect(renderHeadToString(listing(4))).toContain('<meta name="robots" content="noindex,follow">')
+  })
+})
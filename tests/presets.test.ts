@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  eventPreset,
+  faqPreset,
+  podcastEpisodePreset,
+  productPreset,
+  profilePreset,
+  recipePreset,
+  softwareAppPreset,
+  videoPreset
+} from '../src/presets'
+import { buildTags, renderHeadToString } from '../src/tags'
+
+const properties = (config: Parameters<typeof buildTags>[0]) =>
+  buildTags(config)
+    .filter(t => t.tag === 'meta')
+    .map(t => t.attributes.property || t.attributes.name)
+
+describe('content presets', () => {
+  it('builds video pages with og:video properties and a VideoObject', () => {
+    const config = videoPreset({
+      title: 'Launch',
+      description: 'Keynote',
+      url: 'https://example.com/v/launch',
+      thumbnail: 'https://example.com/launch.jpg',
+      uploadDate: '2026-01-02',
+      duration: 5430,
+      directors: ['Ada'],
+      contentUrl: 'https://cdn.example.com/launch.mp4',
+      contentType: 'video/mp4'
+    })
+
+    expect(config.openGraph?.type).toBe('video.other')
+    expect(properties(config)).toEqual(
+      expect.arrayContaining(['og:image', 'og:video', 'og:video:type', 'video:director', 'video:duration'])
+    )
+    expect(config.structuredData?.[0]).toMatchObject({ '@type': 'VideoObject', duration: 'PT1H30M30S' })
+  })
+
+  it('links podcast episodes to their series and audio', () => {
+    const html = renderHeadToString(
+      podcastEpisodePreset({
+        title: 'Ep 1',
+        description: 'Pilot',
+        url: 'https://example.com/ep-1',
+        audioUrl: 'https://cdn.example.com/ep-1.mp3',
+        seriesName: 'The Show',
+        datePublished: '2026-01-01',
+        duration: 60
+      })
+    )
+
+    expect(html).toContain('<meta property="og:audio" content="https://cdn.example.com/ep-1.mp3" data-metafy="og-audio-0">')
+    expect(html).toContain('"partOfSeries":{"@type":"PodcastSeries","name":"The Show"}')
+    expect(html).toContain('"duration":"PT1M"')
+  })
+
+  it('derives the event attendance mode and offers', () => {
+    const data = eventPreset({
+      name: 'Conf',
+      description: 'Yearly conference',
+      url: 'https://example.com/conf',
+      startDate: '2026-05-01T09:00',
+      venue: { name: 'Hall', addressCountry: 'DE' },
+      onlineUrl: 'https://example.com/live',
+      offers: [{ price: 99, currency: 'EUR', availability: 'InStock' }]
+    }).structuredData?.[0]
+
+    expect(data).toMatchObject({
+      eventStatus: 'https://schema.org/EventScheduled',
+      eventAttendanceMode: 'https://schema.org/MixedEventAttendanceMode',
+      location: [{ '@type': 'Place' }, { '@type': 'VirtualLocation' }],
+      offers: [{ price: 99, availability: 'https://schema.org/InStock', url: 'https://example.com/conf' }]
+    })
+
+    // @ts-expect-error an event needs a venue or an online URL
+    eventPreset({ name: 'x', description: 'x', url: '/x', startDate: '2026-01-01' })
+  })
+
+  it('adds recipe durations and steps', () => {
+    const data = recipePreset({
+      name: 'Soup',
+      description: 'Warm',
+      url: '/soup',
+      images: ['https://example.com/soup.jpg'],
+      ingredients: ['Water'],
+      instructions: ['Boil', 'Serve'],
+      prepMinutes: 10,
+      cookMinutes: 80
+    }).structuredData?.[0]
+
+    expect(data).toMatchObject({
+      prepTime: 'PT10M',
+      cookTime: 'PT1H20M',
+      totalTime: 'PT1H30M',
+      recipeInstructions: [{ '@type': 'HowToStep', text: 'Boil' }, { '@type': 'HowToStep', text: 'Serve' }]
+    })
+  })
+
+  it('builds profiles with profile:* properties and a Person', () => {
+    const config = profilePreset({
+      name: 'Ada Lovelace',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      description: 'Mathematician',
+      url: 'https://example.com/ada',
+      twitterHandle: '@ada'
+    })
+
+    expect(config.openGraph?.type).toBe('profile')
+    expect(properties(config)).toEqual(expect.arrayContaining(['profile:first_name', 'profile:last_name', 'twitter:creator']))
+    expect(config.structuredData?.[0]).toMatchObject({ '@type': 'ProfilePage', mainEntity: { '@type': 'Person', givenName: 'Ada' } })
+  })
+
+  it('builds FAQ and software application pages', () => {
+    expect(
+      faqPreset({ title: 'FAQ', description: 'Answers', url: '/faq', questions: [{ question: 'Q?', answer: 'A.' }] })
+        .structuredData?.[0]
+    ).toMatchObject({ '@type': 'FAQPage', mainEntity: [{ name: 'Q?' }] })
+
+    expect(
+      softwareAppPreset({
+        name: 'App',
+        description: 'Does things',
+        url: '/app',
+        operatingSystem: 'ANDROID',
+        category: 'GameApplication',
+        price: '0',
+        type: 'MobileApplication',
+        rating: { value: 4.6, count: 120 }
+      }).structuredData?.[0]
+    ).toMatchObject({
+      '@type': 'MobileApplication',
+      offers: { price: '0', priceCurrency: 'USD' },
+      aggregateRating: { ratingValue: 4.6, ratingCount: 120 }
+    })
+  })
+})
+
+describe('productPreset', () => {
+  const base = {
+    name: 'Shoe',
+    description: 'Runs fast',
+    url: 'https://example.com/shoe',
+    currency: 'EUR',
+    availability: 'InStock' as const
+  }
+
+  it('keeps the single-offer output for simple products', () => {
+    const config = productPreset({ ...base, price: '49.00' })
+
+    expect(config.extraMeta).toEqual([
+      { property: 'product:price:amount', content: '49.00' },
+      { property: 'product:price:currency', content: 'EUR' },
+      { property: 'product:availability', content: 'InStock' }
+    ])
+    expect(config.structuredData?.[0].offers).toEqual({
+      '@type': 'Offer',
+      price: '49.00',
+      priceCurrency: 'EUR',
+      availability: 'https://schema.org/InStock'
+    })
+  })
+
+  it('emits merchant listing fields and matching product:* tags', () => {
+    const config = productPreset({
+      ...base,
+      lowPrice: '49.00',
+      highPrice: '79.00',
+      offerCount: 3,
+      brand: 'Acme',
+      mpn: 'AC-1',
+      gtin: '4006381333931',
+      sku: 'SHOE-1',
+      itemCondition: 'RefurbishedCondition',
+      priceValidUntil: '2026-12-31',
+      aggregateRating: { value: 4.5, count: 12 },
+      reviews: [{ author: 'Ada', rating: 5, body: 'Great' }],
+      shipping: { rate: 0, country: ['DE', 'AT'], handlingDays: [0, 1], transitDays: [1, 3] },
+      returnPolicy: { country: 'DE', category: 'FiniteReturnWindow', days: 30, fees: 'FreeReturn' }
+    })
+
+    expect(config.extraMeta?.map(m => `${m.property}=${m.content}`)).toEqual([
+      'product:price:amount=49.00',
+      'product:price:currency=EUR',
+      'product:availability=InStock',
+      'product:condition=refurbished',
+      'product:brand=Acme',
+      'product:retailer_item_id=SHOE-1',
+      'product:mfr_part_no=AC-1',
+      'product:ean=4006381333931',
+      'product:rating:value=4.5',
+      'product:rating:scale=5',
+      'product:rating:count=12',
+      'product:shipping_cost:amount=0',
+      'product:shipping_cost:currency=EUR'
+    ])
+
+    expect(config.structuredData?.[0]).toMatchObject({
+      sku: 'SHOE-1',
+      gtin: '4006381333931',
+      mpn: 'AC-1',
+      offers: {
+        '@type': 'AggregateOffer',
+        lowPrice: '49.00',
+        highPrice: '79.00',
+        offerCount: 3,
+        itemCondition: 'https://schema.org/RefurbishedCondition',
+        priceValidUntil: '2026-12-31',
+        shippingDetails: [{
+          shippingRate: { value: 0, currency: 'EUR' },
+          shippingDestination: { addressCountry: ['DE', 'AT'] },
+          deliveryTime: { handlingTime: { minValue: 0, maxValue: 1, unitCode: 'DAY' } }
+        }],
+        hasMerchantReturnPolicy: {
+          returnPolicyCategory: 'https://schema.org/MerchantReturnFiniteReturnWindow',
+          merchantReturnDays: 30,
+          returnFees: 'https://schema.org/FreeReturn'
+        }
+      },
+      aggregateRating: { '@type': 'AggregateRating', ratingValue: 4.5, ratingCount: 12 },
+      review: [{ '@type': 'Review', author: { name: 'Ada' }, reviewRating: { ratingValue: 5 } }]
+    })
+  })
+
+  it('rejects invalid combinations at compile time', () => {
+    // @ts-expect-error price and a price range are mutually exclusive
+    productPreset({ ...base, price: '1', lowPrice: '1', highPrice: '2' })
+    // @ts-expect-error mpn requires brand
+    productPreset({ ...base, price: '1', mpn: 'X' })
+    // @ts-expect-error a finite return window needs days
+    productPreset({ ...base, price: '1', returnPolicy: { country: 'DE', category: 'FiniteReturnWindow' } })
+  })
+})
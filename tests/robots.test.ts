@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseRobots, resolveRobots, serializeRobots } from '../src/robots'
+import { renderHeadToString } from '../src/tags'
+import { mergeConfigs } from '../src/merge'
+
+describe('robots directives', () => {
+  it('serializes in a fixed order regardless of field order', () => {
+    expect(
+      serializeRobots({
+        unavailableAfter: '2026-12-31',
+        maxVideoPreview: -1,
+        maxImagePreview: 'large',
+        maxSnippet: 0,
+        notranslate: true,
+        noimageindex: true,
+        nosnippet: true,
+        noarchive: true,
+        follow: true,
+        index: false
+      })
+    ).toBe(
+      'noindex,follow,noarchive,nosnippet,noimageindex,notranslate,max-snippet:0,max-image-preview:large,max-video-preview:-1,unavailable_after:2026-12-31'
+    )
+  })
+
+  it('parses robots strings, expanding all/none and keeping unknown tokens', () => {
+    expect(parseRobots('none, Max-Snippet:50, indexifembedded')).toEqual({
+      index: false,
+      follow: false,
+      maxSnippet: 50,
+      extra: ['indexifembedded']
+    })
+    expect(serializeRobots(parseRobots('all,max-image-preview:standard'))).toBe('index,follow,max-image-preview:standard')
+  })
+
+  it('layers robots, robotsDirectives and the noindex/nofollow shortcuts', () => {
+    expect(
+      resolveRobots({
+        robots: 'index,follow,max-snippet:-1',
+        robotsDirectives: { maxSnippet: 20, noarchive: true },
+        noindex: true
+      })
+    ).toBe('noindex,follow,noarchive,max-snippet:20')
+  })
+
+  it('merges provider defaults with page directives field by field', () => {
+    const merged = mergeConfigs(
+      { robotsDirectives: { maxImagePreview: 'large', maxSnippet: -1 } },
+      { robotsDirectives: { index: false } }
+    )
+    expect(resolveRobots(merged)).toBe('noindex,max-snippet:-1,max-image-preview:large')
+  })
+
+  it('emits a separate tag per crawler', () => {
+    const html = renderHeadToString({
+      robotsDirectives: { index: true, follow: true },
+      botDirectives: { googlebot: { maxImagePreview: 'large' }, bingbot: { nosnippet: true } }
+    })
+
+    expect(html).toBe(
+      [
+        '<meta name="robots" content="index,follow">',
+        '<meta name="bingbot" content="nosnippet">',
+        '<meta name="googlebot" content="max-image-preview:large">'
+      ].join('\n')
+    )
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+
+import { matchPath, resolveRoute } from '../src/routes'
+
+describe('matchPath', () => {
+  it('matches static segments, params and splats', () => {
+    expect(matchPath('/', '/')).toEqual({})
+    expect(matchPath('/about', '/about/')).toEqual({})
+    expect(matchPath('/blog/:slug', '/blog/hello%20world')).toEqual({ slug: 'hello world' })
+    expect(matchPath('/docs/*', '/docs/a/b')).toEqual({ '*': 'a/b' })
+  })
+
+  it('keeps segments with malformed escapes undecoded', () => {
+    expect(matchPath('/blog/:slug', '/blog/%E0%A4%A')).toEqual({ slug: '%E0%A4%A' })
+    expect(matchPath('/docs/*', '/docs/a%20b/%ZZ')).toEqual({ '*': 'a b/%ZZ' })
+  })
+
+  it('rejects paths with missing or extra segments', () => {
+    expect(matchPath('/blog/:slug', '/blog')).toBeNull()
+    expect(matchPath('/blog/:slug', '/blog/a/b')).toBeNull()
+    expect(matchPath('/about', '/contact')).toBeNull()
+  })
+})
+
+describe('resolveRoute', () => {
+  it('uses the first matching pattern and passes params to functions', () => {
+    const routes = {
+      '/blog/new': { title: 'New post' },
+      '/blog/:slug': ({ slug }: Record<string, string>) => ({ title: `Post ${slug}` })
+    }
+
+    expect(resolveRoute(routes, '/blog/new')).toEqual({ title: 'New post' })
+    expect(resolveRoute(routes, '/blog/hello')).toEqual({ title: 'Post hello' })
+    expect(resolveRoute(routes, '/shop')).toBeUndefined()
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  articleSchema,
+  breadcrumbListSchema,
+  faqPageSchema,
+  stripUndefined,
+  webSiteSchema
+} from '../src/schema'
+
+describe('schema builders', () => {
+  it('adds @context and @type and strips undefined fields', () => {
+    expect(
+      articleSchema({
+        type: 'BlogPosting',
+        headline: 'Hello',
+        datePublished: '2024-01-01',
+        author: { '@type': 'Person', name: 'Ada', url: undefined },
+        publisher: { '@id': '#org' },
+        description: undefined
+      })
+    ).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'BlogPosting',
+      headline: 'Hello',
+      datePublished: '2024-01-01',
+      author: { '@type': 'Person', name: 'Ada' },
+      publisher: { '@id': '#org' }
+    })
+  })
+
+  it('numbers breadcrumb positions from 1', () => {
+    const list = breadcrumbListSchema([
+      { name: 'Home', url: 'https://example.com/' },
+      { name: 'Blog', url: 'https://example.com/blog' },
+      { name: 'Post' }
+    ])
+
+    expect(list.itemListElement).toEqual([
+      { '@type': 'ListItem', position: 1, name: 'Home', item: 'https://example.com/' },
+      { '@type': 'ListItem', position: 2, name: 'Blog', item: 'https://example.com/blog' },
+      { '@type': 'ListItem', position: 3, name: 'Post' }
+    ])
+  })
+
+  it('builds the sitelinks search action only when a template is given', () => {
+    expect(webSiteSchema({ name: 'Site', url: 'https://example.com' }).potentialAction).toBeUndefined()
+    expect(
+      webSiteSchema({ name: 'Site', url: 'https://example.com', searchUrlTemplate: 'https://example.com/s?q={search_term_string}' })
+        .potentialAction
+    ).toEqual({
+      '@type': 'SearchAction',
+      target: { '@type': 'EntryPoint', urlTemplate: 'https://example.com/s?q={search_term_string}' },
+      'query-input': 'required name=search_term_string'
+    })
+  })
+
+  it('wraps FAQ answers', () => {
+    expect(faqPageSchema([{ question: 'Why?', answer: 'Because.' }]).mainEntity).toEqual([
+      { '@type': 'Question', name: 'Why?', acceptedAnswer: { '@type': 'Answer', text: 'Because.' } }
+    ])
+  })
+
+  it('strips undefined entries from nested arrays', () => {
+    expect(stripUndefined({ a: [1, undefined, { b: undefined, c: 2 }] })).toEqual({ a: [1, { c: 2 }] })
+  })
+})
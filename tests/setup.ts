@@ -0,0 +1,8 @@
+import { vi } from 'vitest'
+
+// Keep development diagnostics out of the test output; tests that check
+// them opt back in with `vi.importActual`.
+vi.mock('../src/validate', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/validate')>(),
+  reportSeoIssues: vi.fn()
+}))
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildHtmlAttributes, buildTags, renderHeadToString } from '../src/tags'
+
+describe('buildTags', () => {
+  it('applies the same rules as SeoTags', () => {
+    const tags = buildTags({
+      title: 'Post',
+      titleTemplate: '%s | Site',
+      robots: 'index,follow',
+      noindex: true,
+      baseUrl: 'https://example.com',
+      canonical: '/post',
+      twitter: { imageAlt: 'Cover' }
+    })
+
+    expect(tags).toEqual([
+      { tag: 'title', key: 'title', attributes: {}, content: 'Post | Site' },
+      { tag: 'meta', key: 'name:robots', attributes: { name: 'robots', content: 'noindex,follow' } },
+      { tag: 'link', key: 'rel:canonical', attributes: { rel: 'canonical', href: 'https://example.com/post' } },
+      { tag: 'meta', key: 'name:twitter:image:alt', attributes: { name: 'twitter:image:alt', content: 'Cover' } }
+    ])
+  })
+
+  it('gives every tag a unique, stable key', () => {
+    const tags = buildTags({
+      openGraph: { title: 'T', images: [{ url: 'https://example.com/a.jpg', alt: 'A' }], article: { tags: ['x', 'y'] } },
+      languageAlternates: { en: 'https://example.com/en', fr: 'https://example.com/fr' },
+      extraMeta: [{ name: 'custom', content: '1' }],
+      structuredData: [{ '@type': 'Thing' }]
+    })
+    const keys = tags.map(t => t.key)
+
+    expect(keys).toEqual([
+      'hreflang:en',
+      'hreflang:fr',
+      'property:og:title',
+      'og-image-0',
+      'og-image-0-alt',
+      'og-array-article-tags-0',
+      'og-array-article-tags-1',
+      'structured-0',
+      'extra-meta-0'
+    ])
+  })
+})
+
+describe('renderHeadToString', () => {
+  const config = {
+    title: 'Tom & "Jerry" <Live>',
+    description: "It's <b>great</b>",
+    openGraph: { images: [{ url: 'https://example.com/a.jpg', width: 1200 }] },
+    structuredData: [{ '@type': 'Review', reviewBody: '</script>' }]
+  }
+
+  it('escapes attributes, title text and JSON-LD', () => {
+    expect(renderHeadToString(config)).toBe(
+      [
+        '<title>Tom &amp; &quot;Jerry&quot; &lt;Live&gt;</title>',
+        '<meta name="description" content="It&#x27;s &lt;b&gt;great&lt;/b&gt;">',
+        '<meta property="og:image" content="https://example.com/a.jpg" data-metafy="og-image-0">',
+        '<meta property="og:image:width" content="1200" data-metafy="og-image-0-width">',
+        '<script type="application/ld+json" data-metafy="structured-0">{"@type":"Review","reviewBody":"\\u003c/script\\u003e"}</script>'
+      ].join('\n')
+    )
+  })
+
+  it('is byte-identical across runs', () => {
+    expect(renderHeadToString(config)).toBe(renderHeadToString(JSON.parse(JSON.stringify(config))))
+  })
+})
+
+describe('Open Graph media', () => {
+  it('emits grouped image, video and audio properties in OGP order', () => {
+    const html = renderHeadToString({
+      openGraph: {
+        images: [{ url: 'http://example.com/a.jpg', secureUrl: 'https://example.com/a.jpg', alt: 'A', width: 1200, height: 630, type: 'image/jpeg' }],
+        videos: [
+          { url: 'https://example.com/a.mp4', type: 'video/mp4', width: 1280, height: 720 },
+          { url: 'https://example.com/player', type: 'text/html' }
+        ],
+        audio: [{ url: 'https://example.com/a.mp3', type: 'audio/mpeg' }]
+      }
+    })
+
+    expect(html.split('\n').map(line => line.replace(/ data-metafy="[^"]+"/, ''))).toEqual([
+      '<meta property="og:image" content="http://example.com/a.jpg">',
+      '<meta property="og:image:secure_url" content="https://example.com/a.jpg">',
+      '<meta property="og:image:type" content="image/jpeg">',
+      '<meta property="og:image:width" content="1200">',
+      '<meta property="og:image:height" content="630">',
+      '<meta property="og:image:alt" content="A">',
+      '<meta property="og:video" content="https://example.com/a.mp4">',
+      '<meta property="og:video:type" content="video/mp4">',
+      '<meta property="og:video:width" content="1280">',
+      '<meta property="og:video:height" content="720">',
+      '<meta property="og:video" content="https://example.com/player">',
+      '<meta property="og:video:type" content="text/html">',
+      '<meta property="og:audio" content="https://example.com/a.mp3">',
+      '<meta property="og:audio:type" content="audio/mpeg">'
+    ])
+    expect(html).toContain('data-metafy="og-video-1-type"')
+  })
+
+  it('writes article, book and profile fields in their OGP namespaces', () => {
+    const properties = buildTags({
+      openGraph: {
+        article: { publishedTime: '2026-01-01', authors: ['Ada'], tags: ['x'] },
+        book: { isbn: '978-3-16-148410-0', releaseDate: '2025-05-05' },
+        profile: { firstName: 'Ada', lastName: 'Lovelace' }
+      }
+    }).map(t => t.attributes.property)
+
+    expect(properties).toEqual([
+      'article:published_time',
+      'article:author',
+      'article:tag',
+      'book:isbn',
+      'book:release_date',
+      'profile:first_name',
+      'profile:last_name'
+    ])
+  })
+
+  it('keeps video.* metadata out of the og:video namespace', () => {
+    const properties = buildTags({
+      openGraph: { type: 'video.movie', video: { actors: [{ actor: 'Ada', role: 'Lead' }], releaseDate: '2026-01-01' } }
+    }).map(t => t.attributes.property)
+
+    expect(properties).toEqual(['og:type', 'video:actor', 'video:actor:role', 'video:release_date'])
+  })
+})
+
+describe('Twitter cards', () => {
+  const twitterTags = (config: Parameters<typeof buildTags>[0]) =>
+    buildTags(config)
+      .filter(t => t.attributes.name?.indexOf('twitter:') === 0)
+      .map(t => [t.attributes.name, t.attributes.content])
+
+  it('falls back to Open Graph title, description and image', () => {
+    const openGraph = { title: 'OG', description: 'OG desc', images: [{ url: 'https://example.com/og.jpg', alt: 'Cover' }] }
+
+    expect(twitterTags({ openGraph, twitter: { card: 'summary_large_image' } })).toEqual([
+      ['twitter:card', 'summary_large_image'],
+      ['twitter:title', 'OG'],
+      ['twitter:description', 'OG desc'],
+      ['twitter:image', 'https://example.com/og.jpg'],
+      ['twitter:image:alt', 'Cover']
+    ])
+    expect(twitterTags({ openGraph, twitter: { title: 'TW', image: 'https://example.com/tw.jpg' } })).toEqual([
+      ['twitter:title', 'TW'],
+      ['twitter:image', 'https://example.com/tw.jpg'],
+      ['twitter:description', 'OG desc']
+    ])
+    expect(twitterTags({ openGraph })).toEqual([])
+  })
+
+  it('emits player, app and label fields', () => {
+    expect(
+      twitterTags({
+        twitter: {
+          card: 'player',
+          player: { url: 'https://example.com/embed/1', width: 640, height: 360, stream: 'https://example.com/1.mp4' },
+          app: {
+            country: 'DE',
+            iphone: { name: 'Acme', id: '123', url: 'acme://home' },
+            googleplay: { id: 'com.acme' }
+          },
+          labels: [{ label: 'Reading time', data: '5 min' }, { label: 'Level', data: 'Beginner' }]
+        }
+      })
+    ).toEqual([
+      ['twitter:card', 'player'],
+      ['twitter:player', 'https://example.com/embed/1'],
+      ['twitter:player:width', '640'],
+      ['twitter:player:height', '360'],
+      ['twitter:player:stream', 'https://example.com/1.mp4'],
+      ['twitter:app:name:iphone', 'Acme'],
+      ['twitter:app:id:iphone', '123'],
+      ['twitter:app:url:iphone', 'acme://home'],
+      ['twitter:app:id:googleplay', 'com.acme'],
+      ['twitter:app:country', 'DE'],
+      ['twitter:label1', 'Reading time'],
+      ['twitter:data1', '5 min'],
+      ['twitter:label2', 'Level'],
+      ['twitter:data2', 'Beginner']
+    ])
+  })
+})
+
+describe('buildHtmlAttributes', () => {
+  it('derives lang and dir from language, letting htmlAttributes win', () => {
+    expect(buildHtmlAttributes({ language: 'he' })).toEqual({ lang: 'he', dir: 'rtl' })
+    expect(buildHtmlAttributes({ language: 'he', htmlAttributes: { dir: 'ltr', class: undefined } })).toEqual({ lang: 'he', dir: 'ltr' })
+  })
+})
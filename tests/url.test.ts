@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+
+import { normalizeConfigUrls, normalizeUrl } from '../src/url'
+
+describe('normalizeUrl', () => {
+  it('resolves relative paths against baseUrl', () => {
+    expect(normalizeUrl('/posts/hello', { baseUrl: 'https://example.com' })).toBe('https://example.com/posts/hello')
+    expect(normalizeUrl('posts/hello', {})).toBe('posts/hello')
+  })
+
+  it('resolves root-relative paths against the origin only', () => {
+    expect(normalizeUrl('/posts', { baseUrl: 'https://example.com/blog/' })).toBe('https://example.com/posts')
+    expect(normalizeUrl('posts', { baseUrl: 'https://example.com/blog/' })).toBe('https://example.com/blog/posts')
+  })
+
+  it('applies the trailing slash policy to page URLs only', () => {
+    const always = { baseUrl: 'https://example.com', trailingSlash: 'always' as const }
+    const never = { baseUrl: 'https://example.com', trailingSlash: 'never' as const }
+
+    expect(normalizeUrl('/about', always)).toBe('https://example.com/about/')
+    expect(normalizeUrl('/about/', never)).toBe('https://example.com/about')
+    expect(normalizeUrl('/', never)).toBe('https://example.com/')
+    expect(normalizeUrl('/og.jpg', always, false)).toBe('https://example.com/og.jpg')
+  })
+
+  it('strips matching query parameters', () => {
+    const opts = { stripQueryParams: ['utm_*', 'fbclid'] }
+
+    expect(normalizeUrl('https://example.com/a?page=2&utm_source=x&fbclid=y', opts)).toBe('https://example.com/a?page=2')
+    expect(normalizeUrl('https://example.com/a?utm_medium=x', opts)).toBe('https://example.com/a')
+  })
+})
+
+describe('normalizeConfigUrls', () => {
+  it('normalizes every URL-bearing field', () => {
+    const config = normalizeConfigUrls({
+      baseUrl: 'https://example.com',
+      trailingSlash: 'never',
+      canonical: '/blog/',
+      openGraph: { url: '/blog/', images: [{ url: '/og.jpg', alt: 'Cover' }] },
+      twitter: { image: '/tw.jpg', player: { url: '/embed/1', stream: '/media/1.mp4' } },
+      languageAlternates: { en: '/en/', fr: 'https://example.fr/' }
+    })
+
+    expect(config.canonical).toBe('https://example.com/blog')
+    expect(config.openGraph?.url).toBe('https://example.com/blog')
+    expect(config.openGraph?.images).toEqual([{ url: 'https://example.com/og.jpg', alt: 'Cover' }])
+    expect(config.twitter?.image).toBe('https://example.com/tw.jpg')
+    expect(config.twitter?.player).toEqual({ url: 'https://example.com/embed/1', stream: 'https://example.com/media/1.mp4' })
+    expect(config.languageAlternates).toEqual({ en: 'https://example.com/en', fr: 'https://example.fr/' })
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+
+import { isEqual, resolveTitle } from '../src/utils'
+
+describe('resolveTitle', () => {
+  it('fills named placeholders and trims dangling separators', () => {
+    const template = '%s %sep% %siteName%'
+
+    expect(resolveTitle({ title: 'Post', titleTemplate: template, openGraph: { siteName: 'Acme' } })).toBe('Post | Acme')
+    expect(resolveTitle({ title: 'Post', titleTemplate: template, titleSeparator: '—', openGraph: { siteName: 'Acme' } })).toBe(
+      'Post — Acme'
+    )
+    expect(resolveTitle({ title: 'Post', titleTemplate: template })).toBe('Post')
+    expect(resolveTitle({ title: 'Post', titleTemplate: '%title% · Blog' })).toBe('Post · Blog')
+    expect(resolveTitle({ title: 'Post', titleTemplate: '%siteName% | %s' })).toBe('Post')
+    expect(resolveTitle({ title: 'Post', titleTemplate: '%s — %siteName%' })).toBe('Post')
+    expect(resolveTitle({ title: 'Post', titleTemplate: '%siteName%: %s' })).toBe('Post')
+    expect(resolveTitle({ title: 'Post', titleTemplate: '%s (%siteName%)' })).toBe('Post')
+    expect(resolveTitle({ title: 'Post', titleTemplate: '%s · Blog · %siteName%' })).toBe('Post · Blog')
+  })
+
+  it('keeps separators that are part of the title', () => {
+    expect(resolveTitle({ title: '| Pipes |', titleTemplate: '%s' })).toBe('| Pipes |')
+    expect(resolveTitle({ title: 'A | B', titleTemplate: '%s %sep% %siteName%' })).toBe('A | B')
+  })
+
+  it('supports function templates with context', () => {
+    expect(
+      resolveTitle({
+        title: 'Post',
+        titleTemplate: (title, { siteName, separator }) => `${title.toUpperCase()} ${separator} ${siteName}`,
+        openGraph: { siteName: 'Acme' }
+      })
+    ).toBe('POST | Acme')
+  })
+
+  it('falls back to defaultTitle and can skip the template', () => {
+    expect(resolveTitle({ titleTemplate: '%s | Acme', defaultTitle: 'Acme' })).toBe('Acme')
+    expect(resolveTitle({ title: 'Acme — Home', titleTemplate: '%s | Acme', skipTitleTemplate: true })).toBe('Acme — Home')
+    expect(resolveTitle({ titleTemplate: '%s | Acme' })).toBeUndefined()
+  })
+})
+
+describe('isEqual', () => {
+  it('compares structurally and ignores undefined fields', () => {
+    expect(isEqual({ a: [1, { b: 2 }], c: undefined }, { a: [1, { b: 2 }] })).toBe(true)
+    expect(isEqual({ a: [1, 2] }, { a: [2, 1] })).toBe(false)
+    expect(isEqual([], {})).toBe(false)
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+
+import { listingPreset } from '../src/presets'
+import { validateSeoConfig } from '../src/validate'
+
+function codes(config: Parameters<typeof validateSeoConfig>[0]): string[] {
+  return validateSeoConfig(config).map(issue => issue.code)
+}
+
+describe('validateSeoConfig', () => {
+  it('returns no issues for a complete config', () => {
+    expect(
+      validateSeoConfig({
+        title: 'Home',
+        titleTemplate: '%s | Site',
+        description: 'A short description',
+        canonical: 'https://example.com/',
+        openGraph: {
+          url: 'https://example.com/',
+          images: [{ url: 'https://example.com/og.jpg', width: 1200, height: 630 }]
+        },
+        twitter: { card: 'summary_large_image', image: 'https://example.com/og.jpg', imageAlt: 'Cover' },
+        languageAlternates: { en: 'https://example.com/', 'x-default': 'https://example.com/' }
+      })
+    ).toEqual([])
+  })
+
+  it('measures the title after titleTemplate is applied', () => {
+    const title = 'x'.repeat(50)
+
+    expect(codes({ canonical: 'https://example.com', title })).not.toContain('title-too-long')
+    expect(codes({ canonical: 'https://example.com', title, titleTemplate: '%s | My Great Site' })).toContain('title-too-long')
+  })
+
+  it('reports field paths for relative URLs and missing image sizes', () => {
+    const issues = validateSeoConfig({
+      canonical: 'https://example.com',
+      openGraph: { url: '/post', images: [{ url: 'https://example.com/a.jpg' }, { url: '/b.jpg', width: 1, height: 1 }] }
+    })
+
+    expect(issues.map(i => [i.code, i.path, i.severity])).toEqual([
+      ['relative-url', 'openGraph.url', 'error'],
+      ['og-image-dimensions-missing', 'openGraph.images[0]', 'warning'],
+      ['relative-url', 'openGraph.images[1].url', 'error']
+    ])
+  })
+
+  it('checks URLs after pagination and baseUrl are applied', () => {
+    const config = listingPreset({ title: 'Blog', description: 'Posts', url: '/blog', page: 2, totalPages: 3 })
+
+    expect(codes({ ...config, baseUrl: 'https://example.com' })).not.toContain('relative-url')
+    expect(codes(config)).toContain('relative-url')
+  })
+
+  it('flags noindex/nofollow conflicts from every robots source', () => {
+    const conflict = (config: Parameters<typeof validateSeoConfig>[0]) =>
+      validateSeoConfig({ canonical: 'https://example.com', ...config })
+        .filter(issue => issue.code === 'robots-conflict')
+        .map(issue => issue.path)
+
+    expect(conflict({ robots: 'all', noindex: true })).toEqual(['robots'])
+    expect(conflict({ robotsDirectives: { follow: true }, nofollow: true })).toEqual(['robotsDirectives'])
+    expect(conflict({ robots: 'index', robotsDirectives: { index: false }, noindex: true })).toEqual([])
+    expect(conflict({ robots: 'noindex,follow', noindex: true })).toEqual([])
+    expect(conflict({ pagination: { current: 3, total: 5, noindexAfter: 1, urlFor: page => `/p/${page}` }, nofollow: true })).toEqual([])
+  })
+
+  it('flags twitter, robots and hreflang problems', () => {
+    expect(
+      codes({
+        description: 'y'.repeat(161),
+        twitter: { card: 'summary_large_image' },
+        robots: 'index,follow',
+        noindex: true,
+        languageAlternates: { en: 'https://example.com/en' }
+      })
+    ).toEqual([
+      'description-too-long',
+      'canonical-missing',
+      'twitter-image-missing',
+      'robots-conflict',
+      'hreflang-x-default-missing'
+    ])
+
+    expect(codes({ canonical: 'https://example.com', twitter: { image: 'https://example.com/a.jpg' } })).toEqual([
+      'twitter-image-alt-missing'
+    ])
+
+    expect(codes({ canonical: 'https://example.com', twitter: { card: 'player' } })).toEqual(['twitter-player-missing'])
+    expect(
+      codes({ canonical: 'https://example.com', twitter: { card: 'app', app: { iphone: { name: 'Acme' } } } })
+    ).toEqual(['twitter-app-missing'])
+  })
+})